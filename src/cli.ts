@@ -0,0 +1,240 @@
+#!/usr/bin/env bun
+// brightcove-migration: one entry point for the everyday commands
+// Usage: brightcove-migration <command> [args] [config flags]
+//        brightcove-migration <command> --help
+//
+// Each command runs its script in this process, with the arguments after the
+// command name as the script's argv, so the script sees the same flags, config
+// and exit codes as when it is run directly with bun. The config flags and
+// the command's arguments are checked before the script starts; errors exit
+// with EXIT_USAGE without doing anything.
+
+import { positionals } from "./shared/args.ts";
+import {
+  CONFIG_FLAGS_USAGE,
+  ConfigError,
+  parseConfig,
+  type Config,
+} from "./shared/config.ts";
+import {
+  EXIT_FAILURE,
+  EXIT_INTERRUPTED,
+  EXIT_OK,
+  EXIT_USAGE,
+} from "./shared/exit-codes.ts";
+import { isVideoId } from "./shared/id-list.ts";
+import { LOG_FLAGS_USAGE } from "./shared/logger.ts";
+
+const PROGRAM = "brightcove-migration";
+
+interface Command {
+  // Relative to src/
+  script: string;
+  // Arguments after the command name
+  usage: string;
+  description: string;
+  // Script flags, one per line
+  options?: string[];
+  // The script writes a run journal and accepts the logging flags
+  logging?: boolean;
+  // Returns an error message for missing or invalid arguments (config flags
+  // already removed)
+  validate?: (args: string[], config: Config) => string | null;
+}
+
+function requireVideoId(args: string[]): string | null {
+  const [videoId] = positionals(args);
+  if (!videoId) return "Missing <video_id>";
+  return isVideoId(videoId) ? null : `Invalid video ID "${videoId}"`;
+}
+
+const COMMANDS: Record<string, Command> = {
+  token: {
+    script: "sync-brightcove-videos-to-s3/get-token.ts",
+    usage: "",
+    description: "Print a Brightcove OAuth access token",
+  },
+  sources: {
+    script: "sync-brightcove-videos-to-s3/fetch-video-sources.ts",
+    usage: "",
+    description:
+      "Build video_sources.json from the ID list (resumable, skips IDs already fetched)",
+    logging: true,
+  },
+  upload: {
+    script: "sync-brightcove-videos-to-s3/upload-to-s3.ts",
+    usage: "[--dry-run]",
+    description:
+      "Download the videos in video_sources.json and upload them to S3 (resumable)",
+    options: ["--dry-run             Write upload_plan.json instead of uploading"],
+    logging: true,
+  },
+  missing: {
+    script: "sync-brightcove-videos-to-s3/extract-missing.ts",
+    usage: "",
+    description:
+      "List the videos that failed, have no source or were not uploaded yet",
+    logging: true,
+  },
+  tag: {
+    script: "replace-brightcove-videos-with-placeholder/add-tag.ts",
+    usage: "<video_id> [--dry-run]",
+    description: "Add the placeholder-replaced tag to a video",
+    options: ["--dry-run             Show the current tags without changing them"],
+    logging: true,
+    validate: requireVideoId,
+  },
+  "bulk-tag": {
+    script: "replace-brightcove-videos-with-placeholder/bulk-tag.ts",
+    usage: "--tag <tag,...> [--remove] [--out <path>] [--dry-run]",
+    description:
+      "Add or remove tags on the videos in --ids-file (or the IDs on stdin)",
+    options: [
+      "--tag <tag,...>       Tags to add or remove",
+      "--remove              Remove the tags instead of adding them",
+      "--out <path>          Result file (default tag_results.json)",
+      "--dry-run             Write tag_plan.json instead of changing tags",
+    ],
+    logging: true,
+    validate: (args) => {
+      const index = args.indexOf("--tag");
+      return index >= 0 && args[index + 1] && !args[index + 1]!.startsWith("--")
+        ? null
+        : "Missing --tag <tag,...>";
+    },
+  },
+  "job-status": {
+    script: "replace-brightcove-videos-with-placeholder/check-job-status.ts",
+    usage: "<video_id> <job_id> | --all [--once]",
+    description:
+      "Show the state of an ingest job, or poll all jobs in replace_checkpoint.json",
+    options: [
+      "--all                 Poll every unfinished job until finished or failed",
+      "--once                With --all, poll a single round",
+    ],
+    logging: true,
+    validate: (args) =>
+      args.includes("--all") || positionals(args).length >= 2
+        ? null
+        : "Missing <video_id> <job_id> (or --all)",
+  },
+  "verify-replacements": {
+    script: "replace-brightcove-videos-with-placeholder/verify-replacements.ts",
+    usage: "[--tolerance-ms <n>]",
+    description:
+      "Check that the finished replacements serve the placeholder and are tagged",
+    options: [
+      "--tolerance-ms <n>    Allowed duration difference to the placeholder (default 500)",
+    ],
+    logging: true,
+  },
+  inspect: {
+    script: "replace-brightcove-videos-with-placeholder/check-video-sources.ts",
+    usage: "<video_id>... [--json] [--out-dir <dir>]",
+    description:
+      "Print the sources, renditions and ingest jobs of a video, or summarize them for many videos (--ids-file)",
+    options: [
+      "--json                Print JSON instead of the formatted output",
+      "--out-dir <dir>       Where to write video_inspection.csv/.json (several videos)",
+    ],
+    logging: true,
+    validate: (args, config) =>
+      config.idsFile ? null : requireVideoId(args),
+  },
+};
+
+function programHelp(): string {
+  const width = Math.max(...Object.keys(COMMANDS).map((name) => name.length));
+  const commands = Object.entries(COMMANDS).map(
+    ([name, command]) => `  ${name.padEnd(width)}  ${command.description}`,
+  );
+  return [
+    `Usage: ${PROGRAM} <command> [args] [config flags]`,
+    "",
+    "Commands:",
+    ...commands,
+    "",
+    `Run "${PROGRAM} <command> --help" for the arguments of a command.`,
+    "",
+    CONFIG_FLAGS_USAGE,
+    "",
+    `Exit codes: ${EXIT_OK} done, ${EXIT_FAILURE} failed, ${EXIT_USAGE} invalid arguments or config, ${EXIT_INTERRUPTED} interrupted`,
+  ].join("\n");
+}
+
+function commandHelp(name: string, command: Command): string {
+  const lines = [
+    `Usage: ${PROGRAM} ${name}${command.usage ? ` ${command.usage}` : ""} [config flags]`,
+    "",
+    command.description,
+    `(runs src/${command.script})`,
+  ];
+  if (command.options) {
+    lines.push("", "Options:", ...command.options.map((line) => `  ${line}`));
+  }
+  if (command.logging) lines.push("", LOG_FLAGS_USAGE);
+  lines.push("", CONFIG_FLAGS_USAGE);
+  return lines.join("\n");
+}
+
+const isHelp = (arg: string | undefined) => arg === "--help" || arg === "-h";
+
+async function main() {
+  const [name, ...rest] = process.argv.slice(2);
+
+  if (name === undefined || isHelp(name)) {
+    if (name === undefined) {
+      console.error(programHelp());
+      process.exit(EXIT_USAGE);
+    }
+    console.log(programHelp());
+    return;
+  }
+
+  if (name === "help") {
+    const command = rest[0] ? COMMANDS[rest[0]] : undefined;
+    console.log(command ? commandHelp(rest[0]!, command) : programHelp());
+    return;
+  }
+
+  const command = COMMANDS[name];
+  if (!command) {
+    console.error(`Unknown command "${name}"\n`);
+    console.error(programHelp());
+    process.exit(EXIT_USAGE);
+  }
+
+  if (rest.some(isHelp)) {
+    console.log(commandHelp(name, command));
+    return;
+  }
+
+  let args: string[];
+  let config: Config;
+  try {
+    ({ args, config } = await parseConfig(rest));
+  } catch (error) {
+    if (error instanceof ConfigError) {
+      console.error(`❌ Config error: ${error.message}`);
+      process.exit(EXIT_USAGE);
+    }
+    throw error;
+  }
+
+  const invalid = command.validate?.(args, config);
+  if (invalid) {
+    console.error(`${invalid}\n`);
+    console.error(commandHelp(name, command));
+    process.exit(EXIT_USAGE);
+  }
+
+  // The script reads its arguments from process.argv like when run directly
+  const script = `${import.meta.dir}/${command.script}`;
+  process.argv = [process.argv[0]!, script, ...rest];
+  await import(script);
+}
+
+main().catch((err) => {
+  console.error("\n🔴 MAIN CRASHED:", err);
+  process.exit(EXIT_FAILURE);
+});
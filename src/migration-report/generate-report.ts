@@ -0,0 +1,263 @@
+// Migration report for stakeholders
+// Usage: bun src/migration-report/generate-report.ts [--out-dir <dir>] [--replace-ids-file <path>] [--no-s3] [config flags]
+//
+// Combines the ID lists, video_sources.json, the upload and replace
+// checkpoints, the error files and a listing of the S3 prefix into
+// migration_report.csv (one row per video) and migration_report.html (a
+// self-contained page with totals, bytes archived, a per-resolution
+// breakdown, failure reasons grouped by cause, replacement job states and
+// the per-video rows). --no-s3 skips the S3 listing, e.g. without an AWS
+// session; archived bytes then come from the checkpoint.
+
+import { flagValue } from "../shared/args.ts";
+import { loadConfig } from "../shared/config.ts";
+import { csvField, formatBytes } from "../shared/format.ts";
+import { readIdList } from "../shared/id-list.ts";
+import { createLogger, errorFields } from "../shared/logger.ts";
+import { createS3Archive } from "../shared/s3.ts";
+import {
+  loadReplaceCheckpoint,
+  type ReplaceJobEntry,
+} from "../replace-brightcove-videos-with-placeholder/replace-checkpoint.ts";
+import {
+  categorizeMessage,
+  RETRY_POLICIES,
+} from "../sync-brightcove-videos-to-s3/error-categories.ts";
+import {
+  isUploaded,
+  loadCheckpoint,
+} from "../sync-brightcove-videos-to-s3/upload-checkpoint.ts";
+import {
+  loadVideoSources,
+  type VideoSourceEntry,
+} from "../sync-brightcove-videos-to-s3/video-sources.ts";
+import { renderReportHtml } from "./report-html.ts";
+
+export interface VideoRow {
+  videoId: string;
+  name: string;
+  inSyncList: boolean;
+  inReplaceList: boolean;
+  uploadState: string;
+  strategy: string;
+  resolution: string;
+  bytes: number | null;
+  // null when S3 was not listed
+  inS3: boolean | null;
+  attempts: number;
+  lastError: string;
+  failureCause: string;
+  replaceState: string;
+  tagged: boolean;
+  skippedReason: string;
+}
+
+export interface CountRow {
+  label: string;
+  count: number;
+  bytes?: number;
+  example?: string;
+}
+
+export interface MigrationReport {
+  generatedAt: string;
+  location: string;
+  s3Listed: boolean;
+  totals: CountRow[];
+  bytesArchived: number;
+  resolutions: CountRow[];
+  failureCauses: CountRow[];
+  replaceStates: CountRow[];
+  rows: VideoRow[];
+}
+
+const syncDir = `${import.meta.dir}/../sync-brightcove-videos-to-s3`;
+const replaceDir = `${import.meta.dir}/../replace-brightcove-videos-with-placeholder`;
+
+const { config, args } = await loadConfig({
+  idsFile: `${syncDir}/brightcoveIds.txt`,
+});
+
+const outDir = flagValue(args, "--out-dir", import.meta.dir);
+const replaceIdsFile = flagValue(
+  args,
+  "--replace-ids-file",
+  `${replaceDir}/brightcoveID-replace-with-dummy-video.txt`,
+);
+const listS3 = !args.includes("--no-s3");
+const log = createLogger("generate-report", args);
+
+async function readJsonFile<T>(path: string, fallback: T): Promise<T> {
+  try {
+    return (await Bun.file(path).json()) as T;
+  } catch {
+    return fallback;
+  }
+}
+
+async function readIdListIfExists(path: string): Promise<string[]> {
+  return (await Bun.file(path).exists()) ? readIdList(path) : [];
+}
+
+function countBy(
+  rows: VideoRow[],
+  key: (row: VideoRow) => string | null,
+): CountRow[] {
+  const counts = new Map<string, CountRow>();
+  for (const row of rows) {
+    const label = key(row);
+    if (label === null) continue;
+    const entry = counts.get(label) ?? { label, count: 0, bytes: 0 };
+    entry.count++;
+    entry.bytes! += row.bytes ?? 0;
+    entry.example ??= row.lastError || undefined;
+    counts.set(label, entry);
+  }
+  return [...counts.values()].sort((a, b) => b.count - a.count);
+}
+
+async function main() {
+  log.info("Collecting migration data...");
+
+  const syncIds = new Set(await readIdListIfExists(config.idsFile!));
+  const replaceIds = new Set(await readIdListIfExists(replaceIdsFile));
+  const videoSources = new Map<string, VideoSourceEntry>(
+    (await loadVideoSources().catch(() => [])).map((v) => [v.videoId, v]),
+  );
+  const uploads = (await loadCheckpoint()).videos;
+  const replaceJobs: Record<string, ReplaceJobEntry> = (
+    await loadReplaceCheckpoint()
+  ).jobs;
+  const skipped = new Map(
+    (
+      await readJsonFile<{ videoId: string; reason: string }[]>(
+        `${replaceDir}/replace_skipped.json`,
+        [],
+      )
+    ).map((s) => [s.videoId, s.reason]),
+  );
+
+  // videoId -> size of the archived MP4
+  let s3Sizes: Map<string, number> | null = null;
+  if (listS3) {
+    const archive = createS3Archive(config);
+    log.info(`Listing s3://${archive.bucket}/${archive.prefix}...`);
+    s3Sizes = new Map();
+    for (const object of await archive.listObjects()) {
+      const match = object.key.slice(archive.prefix.length).match(/^(\d+)\.mp4$/);
+      if (match) s3Sizes.set(match[1]!, object.size);
+    }
+  }
+
+  const videoIds = new Set([
+    ...syncIds,
+    ...replaceIds,
+    ...videoSources.keys(),
+    ...Object.keys(uploads),
+  ]);
+
+  const rows: VideoRow[] = [...videoIds].sort().map((videoId) => {
+    const source = videoSources.get(videoId);
+    const upload = uploads[videoId];
+    const job = replaceJobs[videoId];
+    const s3Size = s3Sizes?.get(videoId);
+    const lastError = isUploaded(upload) ? "" : (upload?.lastError ?? "");
+    return {
+      videoId,
+      name: source?.name ?? "",
+      inSyncList: syncIds.has(videoId),
+      inReplaceList: replaceIds.has(videoId),
+      uploadState: upload?.state ?? "not attempted",
+      strategy: upload?.strategy ?? "",
+      resolution: upload?.resolution ?? source?.resolution ?? "",
+      bytes: s3Sizes ? (s3Size ?? null) : (upload?.bytes ?? null),
+      inS3: s3Sizes ? s3Size !== undefined : null,
+      attempts: upload?.attempts ?? 0,
+      lastError,
+      failureCause: lastError
+        ? RETRY_POLICIES[upload!.errorCategory ?? categorizeMessage(lastError)].label
+        : "",
+      replaceState: job
+        ? job.restoredAt
+          ? "restored"
+          : (job.state ?? "submitted")
+        : "",
+      tagged: job?.tagged ?? false,
+      skippedReason: skipped.get(videoId) ?? "",
+    };
+  });
+
+  const archived = rows.filter((r) => isUploaded(uploads[r.videoId]));
+  const count = (filter: (row: VideoRow) => boolean) => rows.filter(filter).length;
+
+  const report: MigrationReport = {
+    generatedAt: new Date().toISOString(),
+    location: `s3://${config.bucket}/${config.prefix}`,
+    s3Listed: s3Sizes !== null,
+    totals: [
+      { label: "Videos", count: rows.length },
+      { label: "In sync ID list", count: syncIds.size },
+      { label: "In replace ID list", count: replaceIds.size },
+      { label: "With MP4 source", count: [...videoSources.values()].filter((v) => v.url).length },
+      { label: "Archived (uploaded or verified)", count: archived.length },
+      { label: "Verified", count: count((r) => r.uploadState === "verified") },
+      { label: "Failed", count: count((r) => r.uploadState === "failed") },
+      { label: "No source", count: count((r) => r.uploadState === "no-source") },
+      { label: "Not attempted", count: count((r) => r.uploadState === "not attempted") },
+      ...(s3Sizes ? [{ label: "MP4 in S3", count: count((r) => r.inS3 === true) }] : []),
+      { label: "Replaced and tagged", count: count((r) => r.tagged) },
+      { label: "Skipped by backup gate", count: count((r) => r.skippedReason !== "") },
+    ],
+    bytesArchived: archived.reduce((sum, r) => sum + (r.bytes ?? 0), 0),
+    resolutions: countBy(archived, (r) => r.resolution || "unknown"),
+    failureCauses: countBy(rows, (r) => r.failureCause || null),
+    replaceStates: countBy(rows, (r) => r.replaceState || null),
+    rows,
+  };
+
+  const columns: (keyof VideoRow)[] = [
+    "videoId",
+    "name",
+    "inSyncList",
+    "inReplaceList",
+    "uploadState",
+    "strategy",
+    "resolution",
+    "bytes",
+    "inS3",
+    "attempts",
+    "lastError",
+    "failureCause",
+    "replaceState",
+    "tagged",
+    "skippedReason",
+  ];
+  const csv = [
+    columns.join(","),
+    ...rows.map((row) => columns.map((c) => csvField(row[c])).join(",")),
+  ].join("\n");
+  await Bun.write(`${outDir}/migration_report.csv`, csv + "\n");
+  await Bun.write(`${outDir}/migration_report.html`, renderReportHtml(report));
+
+  log.info(`\n=== Migration Report ===`);
+  for (const total of report.totals) {
+    log.info(`${total.label}: ${total.count}`, {
+      total: total.label,
+      count: total.count,
+    });
+  }
+  log.info(`Bytes archived: ${formatBytes(report.bytesArchived)}`, {
+    bytes: report.bytesArchived,
+  });
+  log.info(
+    `\nReport saved to ${outDir}/migration_report.html and migration_report.csv`,
+  );
+}
+
+main().catch((err) => {
+  log.error("\n🔴 MAIN CRASHED:", {
+    ...errorFields(err),
+    stack: err instanceof Error ? err.stack : String(err),
+  });
+  process.exit(1);
+});
@@ -0,0 +1,141 @@
+// Render the migration report as a single HTML page with inline styles and
+// no external resources, so it can be mailed or attached as one file
+
+import { formatBytes } from "../shared/format.ts";
+import type { CountRow, MigrationReport, VideoRow } from "./generate-report.ts";
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+function countTable(
+  title: string,
+  rows: CountRow[],
+  columns: { bytes?: boolean; example?: boolean } = {},
+): string {
+  if (rows.length === 0) {
+    return `<h2>${escapeHtml(title)}</h2><p class="empty">None</p>`;
+  }
+  const max = Math.max(...rows.map((r) => r.count));
+  const body = rows
+    .map((r) => {
+      const cells = [
+        `<td>${escapeHtml(r.label)}</td>`,
+        `<td class="num">${r.count}</td>`,
+        columns.bytes ? `<td class="num">${formatBytes(r.bytes ?? 0)}</td>` : "",
+        `<td class="bar"><span style="width:${((r.count / max) * 100).toFixed(1)}%"></span></td>`,
+        columns.example ? `<td class="example">${escapeHtml(r.example ?? "")}</td>` : "",
+      ];
+      return `<tr>${cells.join("")}</tr>`;
+    })
+    .join("\n");
+  const header = [
+    "<th></th>",
+    '<th class="num">Videos</th>',
+    columns.bytes ? '<th class="num">Size</th>' : "",
+    "<th></th>",
+    columns.example ? "<th>Example</th>" : "",
+  ];
+  return `<h2>${escapeHtml(title)}</h2>
+<table>
+<thead><tr>${header.join("")}</tr></thead>
+<tbody>
+${body}
+</tbody>
+</table>`;
+}
+
+function videoRow(row: VideoRow): string {
+  const cells = [
+    row.videoId,
+    row.name,
+    row.uploadState,
+    row.strategy,
+    row.resolution,
+    row.bytes === null ? "" : formatBytes(row.bytes),
+    row.inS3 === null ? "" : row.inS3 ? "yes" : "no",
+    row.failureCause,
+    row.replaceState,
+    row.tagged ? "yes" : "",
+    row.skippedReason,
+  ];
+  const title = row.lastError ? ` title="${escapeHtml(row.lastError)}"` : "";
+  return `<tr class="state-${escapeHtml(row.uploadState.replace(/\s+/g, "-"))}"${title}>${cells
+    .map((c) => `<td>${escapeHtml(c)}</td>`)
+    .join("")}</tr>`;
+}
+
+export function renderReportHtml(report: MigrationReport): string {
+  const cards = [
+    ...report.totals.map(
+      (t) =>
+        `<div class="card"><div class="value">${t.count}</div><div class="label">${escapeHtml(t.label)}</div></div>`,
+    ),
+    `<div class="card"><div class="value">${formatBytes(report.bytesArchived)}</div><div class="label">Archived${report.s3Listed ? " (S3 listing)" : " (checkpoint)"}</div></div>`,
+  ].join("\n");
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>Brightcove Migration Report</title>
+<style>
+  body { font-family: -apple-system, "Segoe UI", Helvetica, Arial, sans-serif; margin: 2rem; color: #1d2733; }
+  h1 { margin-bottom: 0.25rem; }
+  .meta { color: #5b6875; margin-bottom: 1.5rem; }
+  .cards { display: flex; flex-wrap: wrap; gap: 0.75rem; }
+  .card { border: 1px solid #d5dbe1; border-radius: 6px; padding: 0.75rem 1rem; min-width: 9rem; }
+  .card .value { font-size: 1.5rem; font-weight: 600; }
+  .card .label { color: #5b6875; font-size: 0.85rem; }
+  table { border-collapse: collapse; margin-bottom: 1.5rem; font-size: 0.9rem; }
+  th, td { text-align: left; padding: 0.3rem 0.6rem; border-bottom: 1px solid #e6eaee; }
+  .num { text-align: right; }
+  .bar { width: 12rem; }
+  .bar span { display: block; height: 0.7rem; background: #2b7bb9; border-radius: 2px; }
+  .example { color: #5b6875; max-width: 32rem; overflow: hidden; text-overflow: ellipsis; white-space: nowrap; }
+  .empty { color: #5b6875; }
+  #videos tr.state-failed td:nth-child(3) { color: #b3261e; }
+  #videos tr.state-no-source td:nth-child(3) { color: #a15c00; }
+  #videos tr.state-verified td:nth-child(3), #videos tr.state-uploaded td:nth-child(3) { color: #1e7d32; }
+  #filter { margin-bottom: 0.75rem; padding: 0.3rem; width: 20rem; }
+</style>
+</head>
+<body>
+<h1>Brightcove Migration Report</h1>
+<div class="meta">Generated ${escapeHtml(report.generatedAt)} &middot; ${escapeHtml(report.location)}</div>
+
+<div class="cards">
+${cards}
+</div>
+
+${countTable("Archived by resolution", report.resolutions, { bytes: true })}
+${countTable("Failure reasons", report.failureCauses, { example: true })}
+${countTable("Replacement jobs", report.replaceStates)}
+
+<h2>Videos</h2>
+<input id="filter" type="search" placeholder="Filter by ID, name, state or reason">
+<table id="videos">
+<thead><tr><th>Video ID</th><th>Name</th><th>Upload state</th><th>Strategy</th><th>Resolution</th><th>Size</th><th>In S3</th><th>Failure cause</th><th>Replacement</th><th>Tagged</th><th>Skipped reason</th></tr></thead>
+<tbody>
+${report.rows.map(videoRow).join("\n")}
+</tbody>
+</table>
+
+<script>
+  const filter = document.getElementById("filter");
+  const rows = document.querySelectorAll("#videos tbody tr");
+  filter.addEventListener("input", () => {
+    const text = filter.value.toLowerCase();
+    for (const row of rows) {
+      row.style.display = row.textContent.toLowerCase().includes(text) ? "" : "none";
+    }
+  });
+</script>
+</body>
+</html>
+`;
+}
@@ -1,80 +1,95 @@
 /**
  * Script to manually add the placeholder-replaced tag to a video
- * Usage: bun run add-tag.ts <video_id>
+ * Usage: bun run add-tag.ts <video_id> [--dry-run] [config flags]
  */
 
-import secret from "./siemens-cc-secret.json";
+import { positionals } from "../shared/args.ts";
+import {
+  BrightcoveApiError,
+  createBrightcoveClient,
+  loadCredentials,
+  type BrightcoveVideo,
+} from "../shared/brightcove-client.ts";
+import { loadConfig } from "../shared/config.ts";
+import { isDryRun } from "../shared/dry-run.ts";
+import { EXIT_USAGE } from "../shared/exit-codes.ts";
+import { createLogger, errorFields } from "../shared/logger.ts";
 
-const ACCOUNT_ID = "1813624294001";
 const TAG = "placeholder-replaced";
 
-const videoId = process.argv[2];
+const { config, args } = await loadConfig();
+const [videoId] = positionals(args);
+const dryRun = isDryRun(args);
+const log = createLogger("add-tag", args);
 
 if (!videoId) {
-  console.error("Usage: bun run add-tag.ts <video_id>");
-  process.exit(1);
+  console.error("Usage: bun run add-tag.ts <video_id> [--dry-run]");
+  process.exit(EXIT_USAGE);
 }
 
-async function main() {
-  console.log(`🏷️  Adding tag to video ${videoId}...`);
+// Show the CMS API response body for API errors
+function errorMessage(error: unknown): string {
+  return error instanceof BrightcoveApiError ? error.body : String(error);
+}
 
-  // Get token
-  const tokenRes = await fetch("https://oauth.brightcove.com/v4/access_token", {
-    method: "POST",
-    headers: {
-      "Content-Type": "application/x-www-form-urlencoded",
-      Authorization:
-        "Basic " +
-        Buffer.from(secret.client_id + ":" + secret.client_secret).toString(
-          "base64",
-        ),
-    },
-    body: "grant_type=client_credentials",
-  });
-  const { access_token } = (await tokenRes.json()) as { access_token: string };
+async function main() {
+  log.info(`🏷️  Adding tag to video ${videoId}...`, { videoId, phase: "tag" });
 
-  // Get current tags
-  const videoRes = await fetch(
-    `https://cms.api.brightcove.com/v1/accounts/${ACCOUNT_ID}/videos/${videoId}`,
-    {
-      headers: { Authorization: `Bearer ${access_token}` },
-    },
+  const brightcove = createBrightcoveClient(
+    await loadCredentials(config.secretFile, config.accountId),
   );
 
-  if (!videoRes.ok) {
-    console.error(`❌ Failed to fetch video: ${await videoRes.text()}`);
+  // Get current tags
+  let video: BrightcoveVideo;
+  try {
+    video = await brightcove.getVideo(videoId!);
+  } catch (error) {
+    log.error(`❌ Failed to fetch video: ${errorMessage(error)}`, {
+      videoId,
+      phase: "fetch",
+      ...errorFields(error),
+    });
     process.exit(1);
   }
 
-  const video = (await videoRes.json()) as { tags?: string[] };
   const currentTags: string[] = video.tags || [];
 
-  console.log(`  Current tags: ${currentTags.join(", ") || "(none)"}`);
+  log.info(`  Current tags: ${currentTags.join(", ") || "(none)"}`, {
+    videoId,
+    tags: currentTags,
+  });
 
   if (currentTags.includes(TAG)) {
-    console.log("✅ Video already has the tag");
+    log.info("✅ Video already has the tag", { videoId, phase: "tag" });
     return;
   }
 
-  // Add tag
-  const patchRes = await fetch(
-    `https://cms.api.brightcove.com/v1/accounts/${ACCOUNT_ID}/videos/${videoId}`,
-    {
-      method: "PATCH",
-      headers: {
-        "Content-Type": "application/json",
-        Authorization: `Bearer ${access_token}`,
-      },
-      body: JSON.stringify({ tags: [...currentTags, TAG] }),
-    },
-  );
+  if (dryRun) {
+    log.info(`🔎 Dry run: would add tag "${TAG}" (no changes made)`, {
+      videoId,
+      phase: "plan",
+    });
+    return;
+  }
 
-  if (patchRes.ok) {
-    console.log(`✅ Tag "${TAG}" added successfully`);
-  } else {
-    console.error(`❌ Failed to add tag: ${await patchRes.text()}`);
+  // Add tag
+  try {
+    await brightcove.updateVideo(videoId!, { tags: [...currentTags, TAG] });
+    log.info(`✅ Tag "${TAG}" added successfully`, { videoId, phase: "tag" });
+  } catch (error) {
+    log.error(`❌ Failed to add tag: ${errorMessage(error)}`, {
+      videoId,
+      phase: "tag",
+      ...errorFields(error),
+    });
     process.exit(1);
   }
 }
 
-main();
+main().catch((err) => {
+  log.error("\n🔴 MAIN CRASHED:", {
+    ...errorFields(err),
+    stack: err instanceof Error ? err.stack : String(err),
+  });
+  process.exit(1);
+});
@@ -0,0 +1,60 @@
+/**
+ * Safety gate: a video may only be replaced once its original is verifiably
+ * archived in S3 by sync-brightcove-videos-to-s3, both the MP4 and the
+ * metadata archive (<id>.json) needed to restore it.
+ */
+
+import {
+  selectBestMp4Source,
+  type BrightcoveClient,
+} from "../shared/brightcove-client.ts";
+import type { S3Archive } from "../shared/s3.ts";
+
+export type BackupCheckResult =
+  | { ok: true; size: number }
+  | { ok: false; reason: string };
+
+export async function verifyBackup(
+  archive: S3Archive,
+  brightcove: BrightcoveClient,
+  videoId: string,
+  uploadedIds: Set<string>,
+): Promise<BackupCheckResult> {
+  if (!uploadedIds.has(videoId)) {
+    return { ok: false, reason: "not uploaded according to upload_checkpoint.json" };
+  }
+
+  const head = await archive.headObject(archive.videoKey(videoId));
+  if (!head) {
+    return { ok: false, reason: "missing in S3" };
+  }
+
+  // Without <id>.json the video can't be restored, and once replaced its
+  // original metadata can't be archived anymore
+  if (!(await archive.headObject(archive.metadataKey(videoId)))) {
+    return { ok: false, reason: "metadata not archived, run archive-metadata.ts" };
+  }
+  const size = head.size;
+
+  if (size === 0) {
+    return { ok: false, reason: "zero-byte object in S3" };
+  }
+
+  const best = selectBestMp4Source(await brightcove.getSources(videoId));
+  if (best?.size !== undefined) {
+    if (best.size !== size) {
+      return {
+        ok: false,
+        reason: `size mismatch (S3 ${size} bytes, Brightcove ${best.size} bytes)`,
+      };
+    }
+    return { ok: true, size };
+  }
+
+  // No size reported by Brightcove: only a checksum stored at upload time
+  // proves the object was written completely
+  if (await archive.getStoredChecksum(archive.videoKey(videoId))) {
+    return { ok: true, size };
+  }
+  return { ok: false, reason: "no source size or stored checksum to verify" };
+}
@@ -0,0 +1,184 @@
+/**
+ * Add or remove tags on many videos.
+ *
+ * Reads the video IDs from --ids-file, or from stdin when no file is given
+ * (one ID per line, other lines are skipped). Every listed tag is added to
+ * (or with --remove, removed from) each video; videos that already have (or
+ * don't have) a tag are left unchanged, so a run can simply be repeated after
+ * failures. One Brightcove token is used for the whole run and refreshed when
+ * it expires.
+ *
+ * The result per video (changed, unchanged or failed, with the changed tags)
+ * is written to tag_results.json (or --out). With --dry-run the videos are
+ * only read and the planned changes are written to tag_plan.json.
+ *
+ * Usage:
+ *   bun run bulk-tag.ts --tag <tag,...> [--remove] [--ids-file <path>] [--out <path>] [--dry-run] [config flags]
+ *   bun run bulk-tag.ts --tag placeholder-replaced --ids-file replace_candidates.txt
+ *   cat restored_ids.txt | bun run bulk-tag.ts --tag placeholder-replaced --remove
+ */
+
+import { resolve } from "node:path";
+import {
+  BrightcoveApiError,
+  createBrightcoveClient,
+  loadCredentials,
+} from "../shared/brightcove-client.ts";
+import { flagValue } from "../shared/args.ts";
+import { loadConfig } from "../shared/config.ts";
+import { isDryRun, writePlan, type PlanEntry } from "../shared/dry-run.ts";
+import { EXIT_USAGE } from "../shared/exit-codes.ts";
+import { parseIdList, readIdList } from "../shared/id-list.ts";
+import { createLogger, errorFields } from "../shared/logger.ts";
+import { updateTags, type TagMode } from "../shared/tags.ts";
+
+const USAGE =
+  "Usage: bun run bulk-tag.ts --tag <tag,...> [--remove] [--ids-file <path>] [--out <path>] [--dry-run]";
+
+const scriptDir = import.meta.dir;
+
+const { config, args } = await loadConfig({ concurrency: 10 });
+const CONCURRENCY = config.concurrency;
+const dryRun = isDryRun(args);
+const mode: TagMode = args.includes("--remove") ? "remove" : "add";
+
+const tags = flagValue(args, "--tag", "")
+  .split(",")
+  .map((tag) => tag.trim())
+  .filter((tag) => tag !== "");
+const outPath = resolve(
+  flagValue(args, "--out", `${scriptDir}/tag_results.json`),
+);
+
+if (tags.length === 0) {
+  console.error("--tag is required");
+  console.error(USAGE);
+  process.exit(EXIT_USAGE);
+}
+if (!config.idsFile && process.stdin.isTTY) {
+  console.error("No video IDs: use --ids-file <path> or pipe the IDs to stdin");
+  console.error(USAGE);
+  process.exit(EXIT_USAGE);
+}
+
+const log = createLogger("bulk-tag", args);
+
+interface TagResult {
+  videoId: string;
+  result: "changed" | "unchanged" | "failed";
+  // Tags added or removed
+  tags: string[];
+  error?: string;
+}
+
+// Show the CMS API response body for API errors
+function errorMessage(error: unknown): string {
+  if (error instanceof BrightcoveApiError) {
+    return `HTTP ${error.status}: ${error.body}`;
+  }
+  return error instanceof Error ? error.message : String(error);
+}
+
+async function main() {
+  const ids = config.idsFile
+    ? await readIdList(config.idsFile)
+    : parseIdList(await Bun.stdin.text());
+  const videoIds = [...new Set(ids)];
+
+  const brightcove = createBrightcoveClient({
+    ...(await loadCredentials(config.secretFile, config.accountId)),
+    onTokenRefresh: (expiresIn) =>
+      log.info(`Brightcove token refreshed (expires in ${expiresIn}s)`, {
+        phase: "auth",
+        expiresIn,
+      }),
+  });
+
+  const verb = mode === "add" ? "Adding" : "Removing";
+  log.info(`\n🏷️  ${verb} tags: ${tags.join(", ")}`);
+  log.info(
+    `Videos: ${videoIds.length} (from ${config.idsFile ?? "stdin"})`,
+  );
+  log.info(`Concurrency: ${CONCURRENCY}\n`);
+
+  const results: TagResult[] = [];
+  const plan: PlanEntry[] = [];
+  let next = 0;
+
+  async function worker() {
+    while (next < videoIds.length) {
+      const videoId = videoIds[next++]!;
+      try {
+        const changed = await updateTags(brightcove, videoId, tags, mode, dryRun);
+        results.push({
+          videoId,
+          result: changed.length > 0 ? "changed" : "unchanged",
+          tags: changed,
+        });
+        if (dryRun) {
+          plan.push({
+            videoId,
+            action: changed.length > 0 ? `${mode}-tag` : "skip",
+            detail: changed.length > 0 ? changed.join(", ") : "already up to date",
+          });
+        } else if (changed.length > 0) {
+          const action = mode === "add" ? "added" : "removed";
+          log.info(`✓ ${videoId}: ${action} ${changed.join(", ")}`, {
+            videoId,
+            phase: "tag",
+            tags: changed,
+          });
+        } else {
+          log.debug(`= ${videoId}: unchanged`, { videoId, phase: "tag" });
+        }
+      } catch (error) {
+        const errorMsg = errorMessage(error);
+        results.push({ videoId, result: "failed", tags: [], error: errorMsg });
+        if (dryRun) {
+          plan.push({ videoId, action: "failed", detail: errorMsg });
+        }
+        log.error(`✗ ${videoId}: ${errorMsg}`, {
+          videoId,
+          phase: "tag",
+          ...errorFields(error),
+        });
+      }
+    }
+  }
+
+  await Promise.all(Array.from({ length: CONCURRENCY }, worker));
+
+  if (dryRun) {
+    await writePlan(`${scriptDir}/tag_plan.json`, plan, log);
+    return;
+  }
+
+  results.sort((a, b) => a.videoId.localeCompare(b.videoId));
+  await Bun.write(
+    outPath,
+    JSON.stringify(
+      { createdAt: new Date().toISOString(), mode, tags, results },
+      null,
+      2,
+    ),
+  );
+
+  const count = (result: TagResult["result"]) =>
+    results.filter((r) => r.result === result).length;
+  log.info(`\n=== Tagging Complete ===`);
+  log.info(
+    `Changed: ${count("changed")}, unchanged: ${count("unchanged")}, failed: ${count("failed")}`,
+  );
+  log.info(`Results saved to ${outPath}`);
+  if (count("failed") > 0) {
+    log.info(`Re-run the same command to retry the failed videos`);
+  }
+}
+
+main().catch((err) => {
+  log.error("\n🔴 MAIN CRASHED:", {
+    ...errorFields(err),
+    stack: err instanceof Error ? err.stack : String(err),
+  });
+  process.exit(1);
+});
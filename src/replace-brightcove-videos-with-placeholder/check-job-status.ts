@@ -4,19 +4,54 @@
  * Usage:
  *   bun run check-job-status.ts <video_id> <job_id>
  *   bun run check-job-status.ts 6343959819112 3edb1e77-bd52-414b-b007-4f8602dc4982
+ *
+ * Batch mode - poll every job in replace_checkpoint.json until all of them
+ * are finished or failed (or a single round with --once). Gives up after
+ * MAX_MONITOR_MINUTES and exits with EXIT_FAILURE, listing the jobs that are
+ * still open:
+ *   bun run check-job-status.ts --all [--once] [config flags]
  */
 
+import { positionals } from "../shared/args.ts";
+import {
+  BrightcoveApiError,
+  createBrightcoveClient,
+  loadCredentials,
+  type BrightcoveClient,
+  type IngestJob,
+} from "../shared/brightcove-client.ts";
+import { loadConfig } from "../shared/config.ts";
+import { EXIT_FAILURE, EXIT_USAGE } from "../shared/exit-codes.ts";
+import { createLogger, errorFields } from "../shared/logger.ts";
+import {
+  loadReplaceCheckpoint,
+  saveJobStates,
+  type JobStatus,
+} from "./replace-checkpoint.ts";
+
+const POLL_INTERVAL_MS = 30000;
+const MAX_MONITOR_MINUTES = 180;
+const TERMINAL_STATES = new Set(["finished", "failed"]);
+const SUMMARY_STATES = [
+  "processing",
+  "publishing",
+  "published",
+  "finished",
+  "failed",
+];
+
 const scriptDir = import.meta.dir;
-const secret = await Bun.file(`${scriptDir}/siemens-cc-secret.json`).json();
-const ACCOUNT_ID = secret.maximum_scope[0].identity["account-id"].toString();
-const CLIENT_ID = secret.client_id;
-const CLIENT_SECRET = secret.client_secret;
 
-const VIDEO_ID = process.argv[2];
-const JOB_ID = process.argv[3];
+const { config, args } = await loadConfig({ concurrency: 10 });
+const CONCURRENCY = config.concurrency;
+const ALL = args.includes("--all");
+const ONCE = args.includes("--once");
+const [VIDEO_ID, JOB_ID] = positionals(args);
+const log = createLogger("check-job-status", args);
 
-if (!VIDEO_ID || !JOB_ID) {
+if (!ALL && (!VIDEO_ID || !JOB_ID)) {
   console.log("Usage: bun run check-job-status.ts <video_id> <job_id>");
+  console.log("       bun run check-job-status.ts --all [--once]");
   console.log("\nOr check from checkpoint file:");
 
   try {
@@ -34,83 +69,235 @@ if (!VIDEO_ID || !JOB_ID) {
   } catch {
     console.log("  No checkpoint file found.");
   }
-  process.exit(1);
+  process.exit(EXIT_USAGE);
 }
 
-async function getAccessToken(): Promise<string> {
-  const credentials = Buffer.from(`${CLIENT_ID}:${CLIENT_SECRET}`).toString(
-    "base64",
-  );
-  const response = await fetch("https://oauth.brightcove.com/v4/access_token", {
-    method: "POST",
-    headers: {
-      "Content-Type": "application/x-www-form-urlencoded",
-      Authorization: `Basic ${credentials}`,
-    },
-    body: "grant_type=client_credentials",
-  });
-  if (!response.ok) {
-    throw new Error(`Failed to get access token: ${response.status}`);
+const delay = (ms: number) => new Promise((r) => setTimeout(r, ms));
+
+// Poll all unfinished jobs in the checkpoint. The checkpoint is re-read every
+// round and only the polled states are merged back, so a replace run writing
+// to the same file at the same time keeps its new jobs and tags.
+async function monitorAll(brightcove: BrightcoveClient) {
+  let checkpoint = await loadReplaceCheckpoint();
+  let videoIds = Object.keys(checkpoint.jobs);
+
+  if (videoIds.length === 0) {
+    log.info("No jobs in replace_checkpoint.json");
+    return;
   }
-  const data = (await response.json()) as { access_token: string };
-  return data.access_token;
-}
 
-async function main() {
-  console.log(`\n🔍 Checking job status for video ${VIDEO_ID}...\n`);
+  log.info(`\n🔍 Monitoring ${videoIds.length} jobs from checkpoint...\n`);
 
-  const accessToken = await getAccessToken();
+  const deadline = Date.now() + MAX_MONITOR_MINUTES * 60 * 1000;
+  let stillOpen: string[] = [];
+  while (true) {
+    const open = videoIds.filter(
+      (id) => !TERMINAL_STATES.has(checkpoint.jobs[id]!.state ?? ""),
+    );
+    const changed: Record<string, JobStatus> = {};
+    let next = 0;
+    let requestErrors = 0;
 
-  // Check job status
-  const jobUrl = `https://cms.api.brightcove.com/v1/accounts/${ACCOUNT_ID}/videos/${VIDEO_ID}/ingest_jobs/${JOB_ID}`;
-  const jobRes = await fetch(jobUrl, {
-    headers: { Authorization: `Bearer ${accessToken}` },
-  });
+    async function worker() {
+      while (next < open.length) {
+        const videoId = open[next++]!;
+        const entry = checkpoint.jobs[videoId]!;
+        try {
+          const job = await brightcove.getIngestJob(videoId, entry.jobId);
+          if (job.state !== entry.state) {
+            log.debug(`${videoId}: ${entry.state ?? "unknown"} -> ${job.state}`, {
+              videoId,
+              phase: "poll",
+              jobId: entry.jobId,
+              state: job.state,
+              errorClass: job.error_code ?? undefined,
+              error: job.error_message ?? undefined,
+            });
+            changed[videoId] = {
+              jobId: entry.jobId,
+              state: job.state,
+              updatedAt: new Date().toISOString(),
+              errorCode: job.error_code ?? null,
+              errorMessage: job.error_message ?? null,
+            };
+          }
+        } catch (error) {
+          requestErrors++;
+          const errorMsg =
+            error instanceof Error ? error.message : String(error);
+          log.warn(`  ⚠ ${videoId}: status check failed (${errorMsg})`, {
+            videoId,
+            phase: "poll",
+            ...errorFields(error),
+          });
+        }
+      }
+    }
+
+    await Promise.all(Array.from({ length: CONCURRENCY }, worker));
+    await saveJobStates(changed);
+    checkpoint = await loadReplaceCheckpoint();
+    videoIds = Object.keys(checkpoint.jobs);
+
+    // Live summary of all jobs by state
+    const counts = new Map<string, number>(SUMMARY_STATES.map((s) => [s, 0]));
+    for (const id of videoIds) {
+      const state = checkpoint.jobs[id]!.state ?? "unknown";
+      counts.set(state, (counts.get(state) ?? 0) + 1);
+    }
+    const summary = Array.from(counts)
+      .map(([state, count]) => `${state}: ${count}`)
+      .join(" | ");
+    log.info(
+      `[${new Date().toLocaleTimeString()}] ${summary}${requestErrors ? ` (${requestErrors} request errors)` : ""}`,
+      { phase: "summary", ...Object.fromEntries(counts), requestErrors },
+    );
+
+    stillOpen = videoIds.filter(
+      (id) => !TERMINAL_STATES.has(checkpoint.jobs[id]!.state ?? ""),
+    );
+    if (ONCE || stillOpen.length === 0 || Date.now() >= deadline) break;
+    await delay(POLL_INTERVAL_MS);
+  }
 
-  if (!jobRes.ok) {
-    console.log(`❌ Failed to get job status: HTTP ${jobRes.status}`);
-    const body = await jobRes.text();
-    console.log(body);
+  // Failure list for resubmission
+  const failures = videoIds
+    .filter((id) => checkpoint.jobs[id]!.state === "failed")
+    .map((id) => ({
+      videoId: id,
+      jobId: checkpoint.jobs[id]!.jobId,
+      error_code: checkpoint.jobs[id]!.errorCode ?? null,
+      error_message: checkpoint.jobs[id]!.errorMessage ?? null,
+    }));
+
+  if (failures.length > 0) {
+    log.info(`\n❌ Failed jobs (${failures.length}):`);
+    // All failures go to the journal, the first 10 to the console
+    failures.forEach((f, i) => {
+      const message = `  ${f.videoId}: ${f.error_code} - ${f.error_message}`;
+      const fields = {
+        videoId: f.videoId,
+        phase: "ingest",
+        jobId: f.jobId,
+        errorClass: f.error_code ?? undefined,
+        error: f.error_message ?? undefined,
+      };
+      if (i < 10) {
+        log.error(message, fields);
+      } else {
+        log.debug(message, fields);
+      }
+    });
+    if (failures.length > 10) {
+      log.info(`  ... and ${failures.length - 10} more`);
+    }
+    await Bun.write(
+      `${scriptDir}/replace_failures.json`,
+      JSON.stringify(failures, null, 2),
+    );
+    log.info(`\nFailure list saved to replace_failures.json`);
+    log.info(`Re-run replace-with-placeholder.ts to resubmit them`);
+  }
+
+  // Jobs that never finished, or whose status couldn't be read, within the
+  // time limit. With --once, open jobs are expected.
+  if (!ONCE && stillOpen.length > 0) {
+    log.error(
+      `\n⏱ Gave up after ${MAX_MONITOR_MINUTES} minutes, ${stillOpen.length} jobs still open:`,
+      { phase: "summary", open: stillOpen.length },
+    );
+    stillOpen.forEach((videoId, i) => {
+      const entry = checkpoint.jobs[videoId]!;
+      const message = `  ${videoId}: job ${entry.jobId} (${entry.state ?? "unknown state"})`;
+      const fields = {
+        videoId,
+        phase: "ingest",
+        jobId: entry.jobId,
+        state: entry.state,
+      };
+      if (i < 10) {
+        log.error(message, fields);
+      } else {
+        log.debug(message, fields);
+      }
+    });
+    if (stillOpen.length > 10) {
+      log.info(`  ... and ${stillOpen.length - 10} more`);
+    }
+    process.exitCode = EXIT_FAILURE;
+  }
+}
+
+async function main() {
+  const brightcove = createBrightcoveClient(
+    await loadCredentials(config.secretFile, config.accountId),
+  );
+
+  if (ALL) {
+    await monitorAll(brightcove);
     return;
   }
 
-  const jobData = await jobRes.json();
+  log.info(`\n🔍 Checking job status for video ${VIDEO_ID}...\n`);
 
-  console.log("📋 Ingest Job Status:");
-  console.log("─".repeat(50));
-  console.log(JSON.stringify(jobData, null, 2));
-  console.log("─".repeat(50));
+  // Check job status
+  let jobData: IngestJob;
+  try {
+    jobData = await brightcove.getIngestJob(VIDEO_ID!, JOB_ID!);
+  } catch (error) {
+    if (!(error instanceof BrightcoveApiError)) throw error;
+    log.error(`❌ Failed to get job status: HTTP ${error.status}\n${error.body}`, {
+      videoId: VIDEO_ID,
+      jobId: JOB_ID,
+      ...errorFields(error),
+    });
+    return;
+  }
 
   // Interpret the status
-  const state = (jobData as { state?: string }).state;
+  const state = jobData.state;
+  let status: string;
   switch (state) {
     case "processing":
-      console.log("\n⏳ Status: PROCESSING - Transcoding is underway");
+      status = "⏳ Status: PROCESSING - Transcoding is underway";
       break;
     case "publishing":
-      console.log("\n📤 Status: PUBLISHING - At least one rendition is ready");
+      status = "📤 Status: PUBLISHING - At least one rendition is ready";
       break;
     case "published":
-      console.log("\n✅ Status: PUBLISHED - Renditions available for playback");
+      status = "✅ Status: PUBLISHED - Renditions available for playback";
       break;
     case "finished":
-      console.log(
-        "\n🎉 Status: FINISHED - Processing complete, video replaced!",
-      );
+      status = "🎉 Status: FINISHED - Processing complete, video replaced!";
       break;
     case "failed":
-      console.log("\n❌ Status: FAILED - Something went wrong");
-      const errorCode = (jobData as { error_code?: string }).error_code;
-      const errorMsg = (jobData as { error_message?: string }).error_message;
-      if (errorCode) console.log(`   Error code: ${errorCode}`);
-      if (errorMsg) console.log(`   Error message: ${errorMsg}`);
+      status = "❌ Status: FAILED - Something went wrong";
+      if (jobData.error_code) status += `\n   Error code: ${jobData.error_code}`;
+      if (jobData.error_message)
+        status += `\n   Error message: ${jobData.error_message}`;
       break;
     default:
-      console.log(`\n❓ Status: ${state || "UNKNOWN"}`);
+      status = `❓ Status: ${state || "UNKNOWN"}`;
   }
+
+  const rule = "─".repeat(50);
+  log.info(
+    `📋 Ingest Job Status:\n${rule}\n${JSON.stringify(jobData, null, 2)}\n${rule}\n\n${status}`,
+    {
+      videoId: VIDEO_ID,
+      phase: "ingest",
+      jobId: JOB_ID,
+      state,
+      errorClass: jobData.error_code ?? undefined,
+      error: jobData.error_message ?? undefined,
+    },
+  );
 }
 
-main().catch((error) => {
-  console.error("Error:", error);
+main().catch((err) => {
+  log.error("\n🔴 MAIN CRASHED:", {
+    ...errorFields(err),
+    stack: err instanceof Error ? err.stack : String(err),
+  });
   process.exit(1);
 });
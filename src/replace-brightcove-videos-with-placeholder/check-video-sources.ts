@@ -1,134 +1,271 @@
 /**
- * Check the sources/renditions of a video.
+ * Check the sources/renditions of a video, or summarize them for many videos.
+ *
+ * One video: prints the video info, sources, dynamic renditions and ingest
+ * jobs. With --json, prints the API responses and the summary as JSON.
+ *
+ * Several IDs, or --ids-file: inspects the videos in parallel (--concurrency,
+ * default 10) and writes one summary row per video (has MP4, max resolution,
+ * rendition count, last job state, digital master, ...) to
+ * video_inspection.csv and video_inspection.json in --out-dir (default: this
+ * folder). With --json, the rows are printed to stdout and the progress
+ * goes to stderr.
  *
  * Usage:
- *   bun run check-video-sources.ts <video_id>
+ *   bun run check-video-sources.ts <video_id> [--json] [config flags]
+ *   bun run check-video-sources.ts <video_id> <video_id>... [--json] [--out-dir <dir>]
+ *   bun run check-video-sources.ts --ids-file <path> [--json] [--out-dir <dir>]
  */
 
+import { resolve } from "node:path";
+import { flagValue, positionals } from "../shared/args.ts";
+import {
+  createBrightcoveClient,
+  loadCredentials,
+  type BrightcoveClient,
+} from "../shared/brightcove-client.ts";
+import { loadConfig } from "../shared/config.ts";
+import { EXIT_USAGE } from "../shared/exit-codes.ts";
+import { csvField } from "../shared/format.ts";
+import { isVideoId, readIdList } from "../shared/id-list.ts";
+import { createLogger, errorFields } from "../shared/logger.ts";
+import {
+  failedSummary,
+  inspectVideo,
+  summarizeInspection,
+  type InspectionSummary,
+} from "./video-inspection.ts";
+
 const scriptDir = import.meta.dir;
-const secret = await Bun.file(`${scriptDir}/siemens-cc-secret.json`).json();
-const ACCOUNT_ID = secret.maximum_scope[0].identity["account-id"].toString();
-const CLIENT_ID = secret.client_id;
-const CLIENT_SECRET = secret.client_secret;
 
-const VIDEO_ID = process.argv[2];
+const { config, args } = await loadConfig({ concurrency: 10 });
+const CONCURRENCY = config.concurrency;
+const JSON_OUTPUT = args.includes("--json");
+const log = createLogger("check-video-sources", args, {
+  resultOnStdout: JSON_OUTPUT,
+});
 
-if (!VIDEO_ID) {
-  console.log("Usage: bun run check-video-sources.ts <video_id>");
-  process.exit(1);
-}
+const OUT_DIR = resolve(flagValue(args, "--out-dir", scriptDir));
+const VIDEO_IDS = positionals(args);
 
-async function getAccessToken(): Promise<string> {
-  const credentials = Buffer.from(`${CLIENT_ID}:${CLIENT_SECRET}`).toString(
-    "base64",
+if (VIDEO_IDS.length === 0 && !config.idsFile) {
+  console.log(
+    "Usage: bun run check-video-sources.ts <video_id>... [--json] [--out-dir <dir>]",
   );
-  const response = await fetch("https://oauth.brightcove.com/v4/access_token", {
-    method: "POST",
-    headers: {
-      "Content-Type": "application/x-www-form-urlencoded",
-      Authorization: `Basic ${credentials}`,
-    },
-    body: "grant_type=client_credentials",
-  });
-  if (!response.ok) {
-    throw new Error(`Failed to get access token: ${response.status}`);
-  }
-  const data = (await response.json()) as { access_token: string };
-  return data.access_token;
+  console.log(
+    "       bun run check-video-sources.ts --ids-file <path> [--json] [--out-dir <dir>]",
+  );
+  process.exit(EXIT_USAGE);
 }
 
-async function main() {
-  console.log(`\n🔍 Checking sources for video ${VIDEO_ID}...\n`);
+const invalidId = VIDEO_IDS.find((id) => !isVideoId(id));
+if (invalidId !== undefined) {
+  console.error(`Invalid video ID "${invalidId}"`);
+  process.exit(EXIT_USAGE);
+}
 
-  const accessToken = await getAccessToken();
+async function printVideo(brightcove: BrightcoveClient, videoId: string) {
+  const inspection = await inspectVideo(brightcove, videoId);
+  const { video, sources, dynamicRenditions: renditions, ingestJobs: jobs } =
+    inspection;
+  const summary = summarizeInspection(inspection);
 
-  // Get video details
-  const videoUrl = `https://cms.api.brightcove.com/v1/accounts/${ACCOUNT_ID}/videos/${VIDEO_ID}`;
-  const videoRes = await fetch(videoUrl, {
-    headers: { Authorization: `Bearer ${accessToken}` },
-  });
-  const videoData = (await videoRes.json()) as any;
-
-  console.log("📹 Video Info:");
-  console.log("─".repeat(50));
-  console.log(`  Name: ${videoData.name}`);
-  console.log(`  State: ${videoData.state}`);
-  console.log(`  Complete: ${videoData.complete}`);
-  console.log(`  Delivery Type: ${videoData.delivery_type}`);
-  console.log(`  Has Digital Master: ${videoData.has_digital_master}`);
-  console.log(`  Duration: ${videoData.duration}ms`);
-  console.log(`  Tags: ${(videoData.tags || []).join(", ")}`);
-
-  // Get sources
-  const sourcesUrl = `https://cms.api.brightcove.com/v1/accounts/${ACCOUNT_ID}/videos/${VIDEO_ID}/sources`;
-  const sourcesRes = await fetch(sourcesUrl, {
-    headers: { Authorization: `Bearer ${accessToken}` },
-  });
-  const sources = (await sourcesRes.json()) as any[];
+  if (JSON_OUTPUT) {
+    console.log(JSON.stringify({ ...inspection, summary }, null, 2));
+    return;
+  }
+
+  const lines = [`\n🔍 Checking sources for video ${videoId}...\n`];
 
-  console.log("\n📦 Sources/Renditions:");
-  console.log("─".repeat(50));
+  lines.push("📹 Video Info:");
+  lines.push("─".repeat(50));
+  lines.push(`  Name: ${video.name}`);
+  lines.push(`  State: ${video.state}`);
+  lines.push(`  Complete: ${video.complete}`);
+  lines.push(`  Delivery Type: ${video.delivery_type}`);
+  lines.push(`  Has Digital Master: ${video.has_digital_master}`);
+  lines.push(`  Duration: ${video.duration}ms`);
+  lines.push(`  Tags: ${(video.tags || []).join(", ")}`);
 
-  if (!sources || sources.length === 0) {
-    console.log("  ⚠️  NO SOURCES FOUND - This explains the playback error!");
+  lines.push("\n📦 Sources/Renditions:");
+  lines.push("─".repeat(50));
+
+  if (sources.length === 0) {
+    lines.push("  ⚠️  NO SOURCES FOUND - This explains the playback error!");
   } else {
     sources.forEach((source, i) => {
-      console.log(
+      lines.push(
         `\n  [${i + 1}] ${source.type || source.container || "Unknown type"}`,
       );
-      if (source.codec) console.log(`      Codec: ${source.codec}`);
+      if (source.codec) lines.push(`      Codec: ${source.codec}`);
       if (source.width && source.height)
-        console.log(`      Resolution: ${source.width}x${source.height}`);
+        lines.push(`      Resolution: ${source.width}x${source.height}`);
       if (source.encoding_rate)
-        console.log(
+        lines.push(
           `      Bitrate: ${Math.round(source.encoding_rate / 1000)}kbps`,
         );
-      if (source.src)
-        console.log(`      URL: ${source.src.substring(0, 80)}...`);
+      if (source.src) lines.push(`      URL: ${source.src.substring(0, 80)}...`);
     });
   }
 
-  // Get dynamic renditions
-  const renditionsUrl = `https://cms.api.brightcove.com/v1/accounts/${ACCOUNT_ID}/videos/${VIDEO_ID}/assets/dynamic_renditions`;
-  const renditionsRes = await fetch(renditionsUrl, {
-    headers: { Authorization: `Bearer ${accessToken}` },
-  });
-
-  if (renditionsRes.ok) {
-    const renditions = (await renditionsRes.json()) as any[];
-    console.log("\n📊 Dynamic Renditions:");
-    console.log("─".repeat(50));
+  if (renditions) {
+    lines.push("\n📊 Dynamic Renditions:");
+    lines.push("─".repeat(50));
 
-    if (!renditions || renditions.length === 0) {
-      console.log("  ⚠️  NO DYNAMIC RENDITIONS - Transcoding may have failed");
+    if (renditions.length === 0) {
+      lines.push("  ⚠️  NO DYNAMIC RENDITIONS - Transcoding may have failed");
     } else {
       renditions.forEach((r) => {
-        console.log(
+        lines.push(
           `  - ${r.rendition_id}: ${r.media_type} ${r.frame_width || ""}x${r.frame_height || ""} @ ${r.encoding_rate}kbps`,
         );
       });
     }
   }
 
-  // Check all ingest jobs for this video
-  const jobsUrl = `https://cms.api.brightcove.com/v1/accounts/${ACCOUNT_ID}/videos/${VIDEO_ID}/ingest_jobs`;
-  const jobsRes = await fetch(jobsUrl, {
-    headers: { Authorization: `Bearer ${accessToken}` },
-  });
-  const jobs = (await jobsRes.json()) as any[];
-
-  console.log("\n📋 All Ingest Jobs:");
-  console.log("─".repeat(50));
+  lines.push("\n📋 All Ingest Jobs:");
+  lines.push("─".repeat(50));
   jobs.forEach((job) => {
     const status = job.error_code
       ? `❌ ${job.state} (${job.error_code})`
       : `${job.state}`;
-    console.log(`  - ${job.id}: ${status}`);
-    if (job.error_message) console.log(`    Error: ${job.error_message}`);
+    lines.push(`  - ${job.id}: ${status}`);
+    if (job.error_message) lines.push(`    Error: ${job.error_message}`);
   });
+
+  log.info(lines.join("\n"), { phase: "inspect", ...rowFields(summary) });
 }
 
-main().catch((error) => {
-  console.error("Error:", error);
+// Journal fields of a summary row
+function rowFields(row: InspectionSummary) {
+  return {
+    videoId: row.videoId,
+    sourceCount: row.sourceCount,
+    hasMp4: row.hasMp4,
+    maxResolution: row.maxResolution,
+    renditionCount: row.renditionCount,
+    hasDigitalMaster: row.hasDigitalMaster,
+    lastJobState: row.lastJobState,
+  };
+}
+
+// One-line description of a summary row for the progress output
+function describe(row: InspectionSummary): string {
+  if (row.error) return `✗ ${row.videoId}: ${row.error}`;
+  const parts = [
+    row.hasMp4 ? "MP4" : "no MP4",
+    row.maxResolution || "no resolution",
+    `${row.renditionCount} renditions`,
+    row.hasDigitalMaster ? "master" : "no master",
+    `last job ${row.lastJobState || "none"}`,
+  ];
+  const symbol = row.sourceCount === 0 ? "⚠" : "✓";
+  return `${symbol} ${row.videoId}: ${parts.join(", ")}`;
+}
+
+async function inspectAll(brightcove: BrightcoveClient, videoIds: string[]) {
+  log.info(`\n🔍 Inspecting ${videoIds.length} videos...\n`);
+
+  const rows: InspectionSummary[] = [];
+  let next = 0;
+
+  async function worker() {
+    while (next < videoIds.length) {
+      const videoId = videoIds[next++]!;
+      const videoStart = Date.now();
+      let row: InspectionSummary;
+      try {
+        row = summarizeInspection(await inspectVideo(brightcove, videoId));
+        log.info(describe(row), {
+          phase: "inspect",
+          ...rowFields(row),
+          durationMs: Date.now() - videoStart,
+        });
+      } catch (error) {
+        const fields = errorFields(error);
+        row = failedSummary(videoId, fields.error);
+        log.error(describe(row), {
+          videoId,
+          phase: "inspect",
+          durationMs: Date.now() - videoStart,
+          ...fields,
+        });
+      }
+      rows.push(row);
+    }
+  }
+
+  await Promise.all(Array.from({ length: CONCURRENCY }, worker));
+  rows.sort((a, b) => a.videoId.localeCompare(b.videoId));
+
+  const columns: (keyof InspectionSummary)[] = [
+    "videoId",
+    "name",
+    "state",
+    "deliveryType",
+    "durationMs",
+    "sourceCount",
+    "hasMp4",
+    "hasHls",
+    "maxResolution",
+    "renditionCount",
+    "hasDigitalMaster",
+    "lastJobState",
+    "lastJobError",
+    "error",
+  ];
+  const csv = [
+    columns.join(","),
+    ...rows.map((row) => columns.map((c) => csvField(row[c])).join(",")),
+  ].join("\n");
+  await Bun.write(`${OUT_DIR}/video_inspection.csv`, csv + "\n");
+  await Bun.write(
+    `${OUT_DIR}/video_inspection.json`,
+    JSON.stringify(rows, null, 2),
+  );
+
+  if (JSON_OUTPUT) {
+    console.log(JSON.stringify(rows, null, 2));
+    return;
+  }
+
+  const count = (filter: (row: InspectionSummary) => boolean) =>
+    rows.filter((row) => !row.error && filter(row)).length;
+  log.info(`\n=== Inspection Summary ===`);
+  log.info(`Videos: ${rows.length}`);
+  log.info(`With MP4: ${count((r) => r.hasMp4)}`);
+  log.info(`Without sources: ${count((r) => r.sourceCount === 0)}`);
+  log.info(`With digital master: ${count((r) => r.hasDigitalMaster)}`);
+  log.info(`Last job failed: ${count((r) => r.lastJobState === "failed")}`);
+  log.info(`Not inspected (errors): ${rows.filter((r) => r.error).length}`);
+  log.info(
+    `\nSummary saved to ${OUT_DIR}/video_inspection.csv and video_inspection.json`,
+  );
+}
+
+async function main() {
+  const brightcove = createBrightcoveClient(
+    await loadCredentials(config.secretFile, config.accountId),
+  );
+
+  const videoIds = [
+    ...new Set([
+      ...VIDEO_IDS,
+      ...(config.idsFile ? await readIdList(config.idsFile) : []),
+    ]),
+  ];
+
+  if (videoIds.length === 1 && !config.idsFile) {
+    await printVideo(brightcove, videoIds[0]!);
+  } else {
+    await inspectAll(brightcove, videoIds);
+  }
+}
+
+main().catch((err) => {
+  log.error("\n🔴 MAIN CRASHED:", {
+    ...errorFields(err),
+    stack: err instanceof Error ? err.stack : String(err),
+  });
   process.exit(1);
 });
@@ -0,0 +1,76 @@
+// Duration and frame size of a local MP4, read from its moov box
+//
+// Only reads the headers (mvhd for the duration, tkhd of the first track with
+// a frame size for the dimensions), so no ffprobe is needed.
+
+export interface Mp4Info {
+  durationMs: number;
+  width: number;
+  height: number;
+}
+
+// Boxes that only contain other boxes, on the way to mvhd and tkhd
+const CONTAINER_BOXES = new Set(["moov", "trak"]);
+
+interface Box {
+  type: string;
+  // Offset of the box content (after the header)
+  start: number;
+  end: number;
+}
+
+function* boxes(view: DataView, start: number, end: number): Generator<Box> {
+  let offset = start;
+  while (offset + 8 <= end) {
+    let size = view.getUint32(offset);
+    const type = String.fromCharCode(
+      ...new Uint8Array(view.buffer, view.byteOffset + offset + 4, 4),
+    );
+    let header = 8;
+    if (size === 1) {
+      size = Number(view.getBigUint64(offset + 8));
+      header = 16;
+    } else if (size === 0) {
+      size = end - offset;
+    }
+    if (size < header || offset + size > end) {
+      throw new Error(`Invalid MP4 box "${type}" at offset ${offset}`);
+    }
+    yield { type, start: offset + header, end: offset + size };
+    offset += size;
+  }
+}
+
+export async function readMp4Info(path: string): Promise<Mp4Info> {
+  const view = new DataView(await Bun.file(path).arrayBuffer());
+  let durationMs: number | null = null;
+  let width = 0;
+  let height = 0;
+
+  function visit(start: number, end: number) {
+    for (const box of boxes(view, start, end)) {
+      if (CONTAINER_BOXES.has(box.type)) {
+        visit(box.start, box.end);
+      } else if (box.type === "mvhd") {
+        // Version 1 uses 64-bit times and durations
+        const version = view.getUint8(box.start);
+        const timescale = view.getUint32(box.start + (version === 1 ? 20 : 12));
+        const duration =
+          version === 1
+            ? Number(view.getBigUint64(box.start + 24))
+            : view.getUint32(box.start + 16);
+        durationMs = Math.round((duration / timescale) * 1000);
+      } else if (box.type === "tkhd" && width === 0) {
+        // Width and height are the last two fields, 16.16 fixed point
+        width = view.getUint32(box.end - 8) / 65536;
+        height = view.getUint32(box.end - 4) / 65536;
+      }
+    }
+  }
+
+  visit(0, view.byteLength);
+  if (durationMs === null) {
+    throw new Error(`${path} has no movie header (mvhd)`);
+  }
+  return { durationMs, width, height };
+}
@@ -0,0 +1,120 @@
+/**
+ * replace_checkpoint.json - one entry per video that got a replace ingest job.
+ */
+
+import { rename } from "node:fs/promises";
+
+export interface ReplaceJobEntry {
+  jobId: string;
+  submittedAt: string;
+  tagged: boolean;
+  // Last known ingest job state (processing, publishing, finished, failed, ...)
+  state?: string;
+  updatedAt?: string;
+  errorCode?: string | null;
+  errorMessage?: string | null;
+  // Set by restore-from-s3.ts: the original is back, the placeholder gone
+  restoredAt?: string;
+  restoreJobId?: string;
+}
+
+export interface ReplaceCheckpoint {
+  jobs: Record<string, ReplaceJobEntry>;
+}
+
+export const REPLACE_CHECKPOINT_FILE = `${import.meta.dir}/replace_checkpoint.json`;
+
+// Empty if the file doesn't exist yet. A file that can't be parsed is
+// thrown: saving over it would lose every recorded job.
+export async function loadReplaceCheckpoint(
+  path = REPLACE_CHECKPOINT_FILE,
+): Promise<ReplaceCheckpoint> {
+  const file = Bun.file(path);
+  if (!(await file.exists())) return { jobs: {} };
+  const data = (await file.json()) as Partial<ReplaceCheckpoint>;
+  return { jobs: data.jobs ?? {} };
+}
+
+// Writes go to a temp file that is renamed over the checkpoint, so a crash
+// never leaves a half-written file
+async function writeCheckpoint(
+  checkpoint: ReplaceCheckpoint,
+  path: string,
+): Promise<void> {
+  const tmpPath = `${path}.tmp`;
+  await Bun.write(tmpPath, JSON.stringify(checkpoint, null, 2));
+  await rename(tmpPath, path);
+}
+
+// Writes are chained so concurrent workers never interleave
+let pendingWrite: Promise<unknown> = Promise.resolve();
+
+export function saveReplaceCheckpoint(
+  checkpoint: ReplaceCheckpoint,
+  path = REPLACE_CHECKPOINT_FILE,
+): Promise<void> {
+  const write = pendingWrite.then(() => writeCheckpoint(checkpoint, path));
+  pendingWrite = write.catch(() => {});
+  return write;
+}
+
+// Re-read the file, apply `change` and write it back, inside the write chain.
+// Other processes (check-job-status.ts, replace-with-placeholder.ts) save
+// the same file, so changes are merged into what is on disk instead of
+// writing a checkpoint that was loaded earlier.
+function updateCheckpoint(
+  path: string,
+  change: (checkpoint: ReplaceCheckpoint) => void,
+): Promise<void> {
+  const write = pendingWrite.then(async () => {
+    const checkpoint = await loadReplaceCheckpoint(path);
+    change(checkpoint);
+    await writeCheckpoint(checkpoint, path);
+  });
+  pendingWrite = write.catch(() => {});
+  return write;
+}
+
+// Save the entry of one video, keeping the other entries on disk
+export function saveReplaceEntry(
+  videoId: string,
+  entry: ReplaceJobEntry,
+  path = REPLACE_CHECKPOINT_FILE,
+): Promise<void> {
+  return updateCheckpoint(path, (checkpoint) => {
+    checkpoint.jobs[videoId] = entry;
+  });
+}
+
+export type JobStatus = Pick<
+  ReplaceJobEntry,
+  "jobId" | "state" | "updatedAt" | "errorCode" | "errorMessage"
+>;
+
+// Record polled job states without overwriting what another process saved
+// meanwhile: only the state fields of the polled jobs are replaced. Jobs
+// that were resubmitted since (different jobId) or removed are left alone.
+export function saveJobStates(
+  states: Record<string, JobStatus>,
+  path = REPLACE_CHECKPOINT_FILE,
+): Promise<void> {
+  return updateCheckpoint(path, (checkpoint) => {
+    for (const [videoId, { jobId, ...status }] of Object.entries(states)) {
+      const entry = checkpoint.jobs[videoId];
+      if (entry?.jobId === jobId) Object.assign(entry, status);
+    }
+  });
+}
+
+// Record that a replaced video was restored from S3. Videos without an entry
+// (replaced with another checkpoint) are left alone.
+export function markRestored(
+  videoId: string,
+  restore: Required<Pick<ReplaceJobEntry, "restoredAt" | "restoreJobId">>,
+  path = REPLACE_CHECKPOINT_FILE,
+): Promise<void> {
+  return updateCheckpoint(path, (checkpoint) => {
+    const entry = checkpoint.jobs[videoId];
+    if (entry) Object.assign(entry, restore);
+  });
+}
@@ -0,0 +1,302 @@
+/**
+ * Replace videos with placeholder_with_audio.mp4 via Dynamic Ingest.
+ *
+ * For each video ID: uploads the placeholder to Brightcove's temporary S3
+ * location, submits a replace ingest job, polls it until finished/failed and
+ * tags finished videos with "placeholder-replaced". Progress is stored in
+ * replace_checkpoint.json, so the run can be interrupted and restarted:
+ * submitted jobs are polled again instead of being resubmitted.
+ *
+ * Videos whose original is not verifiably backed up in S3 (see
+ * backup-gate.ts) are skipped and listed in replace_skipped.json.
+ *
+ * With --dry-run, backups are checked but nothing is submitted or tagged;
+ * the planned action per video is written to replace_plan.json.
+ *
+ * Usage:
+ *   bun run replace-with-placeholder.ts [--ids-file <path>] [--limit <n>] [--dry-run] [config flags]
+ *   bun run replace-with-placeholder.ts --limit 10
+ */
+
+import {
+  createBrightcoveClient,
+  loadCredentials,
+  type BrightcoveClient,
+} from "../shared/brightcove-client.ts";
+import { loadConfig } from "../shared/config.ts";
+import { isDryRun, writePlan, type PlanEntry } from "../shared/dry-run.ts";
+import { EXIT_USAGE } from "../shared/exit-codes.ts";
+import { readIdList } from "../shared/id-list.ts";
+import { createLogger, errorFields } from "../shared/logger.ts";
+import { createS3Archive } from "../shared/s3.ts";
+import { addTag } from "../shared/tags.ts";
+import {
+  loadCheckpoint as loadUploadCheckpoint,
+  uploadedIds as getUploadedIds,
+} from "../sync-brightcove-videos-to-s3/upload-checkpoint.ts";
+import { verifyBackup } from "./backup-gate.ts";
+import {
+  loadReplaceCheckpoint,
+  saveJobStates,
+  saveReplaceEntry,
+  type ReplaceCheckpoint,
+} from "./replace-checkpoint.ts";
+
+const TAG = "placeholder-replaced";
+const PLACEHOLDER_NAME = "placeholder_with_audio.mp4";
+const POLL_INTERVAL_MS = 15000;
+const MAX_POLL_MINUTES = 60;
+
+const scriptDir = import.meta.dir;
+
+const { config, args } = await loadConfig({
+  idsFile: `${scriptDir}/brightcoveID-replace-with-dummy-video.txt`,
+});
+const CONCURRENCY = config.concurrency;
+const idsFile = config.idsFile!;
+const dryRun = isDryRun(args);
+const log = createLogger("replace-with-placeholder", args);
+
+const limitIndex = args.indexOf("--limit");
+const limit = limitIndex >= 0 ? parseInt(args[limitIndex + 1] ?? "", 10) : null;
+
+if (limit !== null && (isNaN(limit) || limit <= 0)) {
+  console.error(
+    "Usage: bun run replace-with-placeholder.ts [--ids-file <path>] [--limit <n>] [--dry-run]",
+  );
+  process.exit(EXIT_USAGE);
+}
+
+const delay = (ms: number) => new Promise((r) => setTimeout(r, ms));
+
+// Upload the placeholder to the Brightcove-provided S3 bucket and start a
+// replace ingest job. Returns the ingest job ID.
+async function submitReplaceJob(
+  brightcove: BrightcoveClient,
+  videoId: string,
+  placeholder: Blob,
+): Promise<string> {
+  const upload = await brightcove.getUploadUrls(videoId, PLACEHOLDER_NAME);
+
+  const putRes = await fetch(upload.signed_url, {
+    method: "PUT",
+    body: placeholder,
+  });
+  if (!putRes.ok) {
+    throw new Error(`Placeholder upload failed: ${putRes.status}`);
+  }
+
+  const job = await brightcove.submitIngestRequest(videoId, {
+    master: { url: upload.api_request_url },
+  });
+  return job.id;
+}
+
+// Poll an ingest job until it reaches finished or failed
+async function waitForJob(
+  brightcove: BrightcoveClient,
+  videoId: string,
+  checkpoint: ReplaceCheckpoint,
+): Promise<string> {
+  const entry = checkpoint.jobs[videoId]!;
+  const deadline = Date.now() + MAX_POLL_MINUTES * 60 * 1000;
+
+  while (Date.now() < deadline) {
+    try {
+      const job = await brightcove.getIngestJob(videoId, entry.jobId);
+      if (job.state !== entry.state) {
+        entry.state = job.state;
+        entry.updatedAt = new Date().toISOString();
+        entry.errorCode = job.error_code ?? null;
+        entry.errorMessage = job.error_message ?? null;
+        await saveJobStates({
+          [videoId]: {
+            jobId: entry.jobId,
+            state: entry.state,
+            updatedAt: entry.updatedAt,
+            errorCode: entry.errorCode,
+            errorMessage: entry.errorMessage,
+          },
+        });
+      }
+      if (job.state === "finished" || job.state === "failed") {
+        return job.state;
+      }
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : String(error);
+      log.warn(`  ⚠ ${videoId}: status check failed (${errorMsg})`, {
+        videoId,
+        phase: "poll",
+        ...errorFields(error),
+      });
+    }
+    await delay(POLL_INTERVAL_MS);
+  }
+  return "timeout";
+}
+
+async function main() {
+  const brightcove = createBrightcoveClient({
+    ...(await loadCredentials(config.secretFile, config.accountId)),
+    onTokenRefresh: (expiresIn) =>
+      log.info(`Brightcove token refreshed (expires in ${expiresIn}s)`, {
+        phase: "auth",
+        expiresIn,
+      }),
+  });
+  const archive = createS3Archive(config);
+  const placeholder = Bun.file(`${scriptDir}/${PLACEHOLDER_NAME}`);
+
+  const ids = await readIdList(idsFile);
+  const checkpoint = await loadReplaceCheckpoint();
+  const uploadedIds = getUploadedIds(await loadUploadCheckpoint());
+
+  // Already tagged videos are done; everything else is submitted or resumed
+  const remaining = ids.filter((id) => !checkpoint.jobs[id]?.tagged);
+  const pending = limit !== null ? remaining.slice(0, limit) : remaining;
+
+  log.info(`\n🔁 Replacing videos with ${PLACEHOLDER_NAME}`);
+  log.info(`IDs in ${idsFile}: ${ids.length}`);
+  log.info(`Already replaced and tagged: ${ids.length - remaining.length}`);
+  log.info(`To process this run: ${pending.length}`);
+  log.info(`Concurrency: ${CONCURRENCY}\n`);
+
+  let finishedCount = 0;
+  let failedCount = 0;
+  const skipped: { videoId: string; reason: string }[] = [];
+  const plan: PlanEntry[] = [];
+  let next = 0;
+
+  async function processVideo(videoId: string) {
+    const existing = checkpoint.jobs[videoId];
+
+    // A failed job gets a fresh submission, anything else is resumed
+    if (!existing || existing.state === "failed") {
+      const backup = await verifyBackup(archive, brightcove, videoId, uploadedIds);
+      if (!backup.ok) {
+        skipped.push({ videoId, reason: backup.reason });
+        if (dryRun) {
+          plan.push({ videoId, action: "skip", detail: backup.reason });
+          return;
+        }
+        log.warn(`⊘ ${videoId}: skipped, backup not verified (${backup.reason})`, {
+          videoId,
+          phase: "backup-gate",
+          reason: backup.reason,
+        });
+        return;
+      }
+
+      if (dryRun) {
+        plan.push({
+          videoId,
+          action: "replace",
+          bytes: backup.size,
+          detail: existing ? `resubmit failed job ${existing.jobId}` : undefined,
+        });
+        return;
+      }
+
+      const jobId = await submitReplaceJob(brightcove, videoId, placeholder);
+      checkpoint.jobs[videoId] = {
+        jobId,
+        submittedAt: new Date().toISOString(),
+        tagged: false,
+        state: "submitted",
+      };
+      await saveReplaceEntry(videoId, checkpoint.jobs[videoId]!);
+      log.info(`📤 ${videoId}: job ${jobId} submitted`, {
+        videoId,
+        phase: "submit",
+        jobId,
+      });
+    } else if (dryRun) {
+      plan.push({
+        videoId,
+        action: existing.state === "finished" ? "tag" : "resume",
+        detail: `job ${existing.jobId} (${existing.state ?? "unknown state"})`,
+      });
+      return;
+    } else {
+      log.info(`↻ ${videoId}: resuming job ${existing.jobId}`, {
+        videoId,
+        phase: "submit",
+        jobId: existing.jobId,
+      });
+    }
+
+    const state =
+      checkpoint.jobs[videoId]!.state === "finished"
+        ? "finished"
+        : await waitForJob(brightcove, videoId, checkpoint);
+
+    if (state !== "finished") {
+      failedCount++;
+      const entry = checkpoint.jobs[videoId]!;
+      log.error(
+        `✗ ${videoId}: job ${state}${entry.errorCode ? ` (${entry.errorCode}: ${entry.errorMessage})` : ""}`,
+        {
+          videoId,
+          phase: "ingest",
+          jobId: entry.jobId,
+          state,
+          errorClass: entry.errorCode ?? undefined,
+          error: entry.errorMessage ?? undefined,
+        },
+      );
+      return;
+    }
+
+    await addTag(brightcove, videoId, TAG);
+    checkpoint.jobs[videoId]!.tagged = true;
+    await saveReplaceEntry(videoId, checkpoint.jobs[videoId]!);
+    finishedCount++;
+    log.info(`✓ ${videoId}: replaced and tagged`, {
+      videoId,
+      phase: "tag",
+      jobId: checkpoint.jobs[videoId]!.jobId,
+    });
+  }
+
+  async function worker() {
+    while (next < pending.length) {
+      const videoId = pending[next++]!;
+      try {
+        await processVideo(videoId);
+      } catch (error) {
+        failedCount++;
+        const errorMsg = error instanceof Error ? error.message : String(error);
+        log.error(`✗ ${videoId}: ${errorMsg}`, { videoId, ...errorFields(error) });
+      }
+    }
+  }
+
+  await Promise.all(Array.from({ length: CONCURRENCY }, worker));
+
+  if (dryRun) {
+    await writePlan(`${scriptDir}/replace_plan.json`, plan, log);
+    return;
+  }
+
+  log.info(`\n=== Replacement Complete ===`);
+  log.info(
+    `This session: ${finishedCount} replaced, ${failedCount} failed, ${skipped.length} skipped`,
+  );
+  log.info(`Checkpoint: replace_checkpoint.json`);
+
+  if (skipped.length > 0) {
+    await Bun.write(
+      `${scriptDir}/replace_skipped.json`,
+      JSON.stringify(skipped, null, 2),
+    );
+    log.info(`\nVideos without verified backup saved to replace_skipped.json`);
+  }
+}
+
+main().catch((err) => {
+  log.error("\n🔴 MAIN CRASHED:", {
+    ...errorFields(err),
+    stack: err instanceof Error ? err.stack : String(err),
+  });
+  process.exit(1);
+});
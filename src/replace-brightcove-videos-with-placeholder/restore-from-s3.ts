@@ -0,0 +1,254 @@
+/**
+ * Restore an archived video from S3 back into Brightcove.
+ *
+ * Submits a replace ingest job with a presigned URL for
+ * brightcove-cleanup/<id>.mp4 (plus the archived poster, thumbnail and text
+ * tracks if present), restores name, description, tags and custom fields
+ * from <id>.json and removes the "placeholder-replaced" tag. Each restore is
+ * appended to restore_log.json and recorded in the video's entry in
+ * replace_checkpoint.json, so verify-replacements.ts no longer expects the
+ * placeholder.
+ *
+ * The archived file is not always an MP4: a digital master is archived in its
+ * own container under the same key. The container recorded in
+ * upload_checkpoint.json is shown and logged with the restore.
+ *
+ * Usage:
+ *   bun run restore-from-s3.ts <video_id> [--dry-run] [config flags]
+ *
+ * With --dry-run, prints the ingest request and metadata update that would be
+ * sent without changing anything.
+ */
+
+import {
+  GetObjectCommand,
+  ListObjectsV2Command,
+  NoSuchKey,
+} from "@aws-sdk/client-s3";
+import { positionals } from "../shared/args.ts";
+import {
+  createBrightcoveClient,
+  loadCredentials,
+  type BrightcoveVideo,
+  type IngestRequest,
+} from "../shared/brightcove-client.ts";
+import { loadConfig } from "../shared/config.ts";
+import { isDryRun } from "../shared/dry-run.ts";
+import { EXIT_USAGE } from "../shared/exit-codes.ts";
+import { createLogger, errorFields } from "../shared/logger.ts";
+import { createS3Archive, type S3Archive } from "../shared/s3.ts";
+import { removeTag } from "../shared/tags.ts";
+import {
+  loadCheckpoint as loadUploadCheckpoint,
+} from "../sync-brightcove-videos-to-s3/upload-checkpoint.ts";
+import { markRestored } from "./replace-checkpoint.ts";
+
+const TAG = "placeholder-replaced";
+
+const scriptDir = import.meta.dir;
+
+const { config, args } = await loadConfig();
+const [VIDEO_ID] = positionals(args);
+const dryRun = isDryRun(args);
+const log = createLogger("restore-from-s3", args);
+
+if (!VIDEO_ID) {
+  console.error("Usage: bun run restore-from-s3.ts <video_id> [--dry-run]");
+  process.exit(EXIT_USAGE);
+}
+
+interface RestoreLogEntry {
+  videoId: string;
+  jobId: string;
+  restoredAt: string;
+  // Container of the archived file, "mp4" unless it was a digital master
+  container: string;
+  metadataRestored: boolean;
+  poster: boolean;
+  thumbnail: boolean;
+  textTracks: number;
+}
+
+async function loadArchivedMetadata(
+  archive: S3Archive,
+  videoId: string,
+): Promise<BrightcoveVideo | null> {
+  try {
+    const object = await archive.client.send(
+      new GetObjectCommand({
+        Bucket: archive.bucket,
+        Key: archive.metadataKey(videoId),
+      }),
+    );
+    return JSON.parse(await object.Body!.transformToString()) as BrightcoveVideo;
+  } catch (error) {
+    if (error instanceof NoSuchKey) return null;
+    throw error;
+  }
+}
+
+// All archived files of a video: <prefix><id>.*
+async function listArchivedKeys(
+  archive: S3Archive,
+  videoId: string,
+): Promise<string[]> {
+  const list = await archive.client.send(
+    new ListObjectsV2Command({
+      Bucket: archive.bucket,
+      Prefix: `${archive.prefix}${videoId}.`,
+    }),
+  );
+  return (list.Contents ?? []).map((o) => o.Key!);
+}
+
+const RESTORE_LOG_FILE = `${scriptDir}/restore_log.json`;
+
+// Empty if the file doesn't exist yet. A file that can't be parsed is
+// thrown: writing over it would lose the restore history.
+async function loadRestoreLog(): Promise<RestoreLogEntry[]> {
+  const file = Bun.file(RESTORE_LOG_FILE);
+  if (!(await file.exists())) return [];
+  return (await file.json()) as RestoreLogEntry[];
+}
+
+async function main() {
+  const videoId = VIDEO_ID!;
+  log.info(`\n♻️  Restoring video ${videoId} from S3...\n`, {
+    videoId,
+    phase: "restore",
+  });
+
+  // Read before anything is changed, so a malformed log stops the restore
+  const restoreLog = await loadRestoreLog();
+
+  const brightcove = createBrightcoveClient(
+    await loadCredentials(config.secretFile, config.accountId),
+  );
+  const archive = createS3Archive(config);
+
+  if (!(await archive.headObject(archive.videoKey(videoId)))) {
+    log.error(
+      `❌ No archived video at s3://${archive.bucket}/${archive.videoKey(videoId)}`,
+      { videoId, phase: "restore" },
+    );
+    process.exit(1);
+  }
+
+  // Uploads from before the container was recorded are all MP4s
+  const upload = (await loadUploadCheckpoint()).videos[videoId];
+  const container = upload?.container ?? "mp4";
+
+  const metadata = await loadArchivedMetadata(archive, videoId);
+  const keys = await listArchivedKeys(archive, videoId);
+  const current = await brightcove.getVideo(videoId);
+
+  const ingest: IngestRequest = {
+    master: { url: await archive.presignedUrl(archive.videoKey(videoId)) },
+  };
+
+  const posterKey = keys.find((k) => k.includes(`${videoId}.poster.`));
+  const thumbnailKey = keys.find((k) => k.includes(`${videoId}.thumbnail.`));
+  if (posterKey) {
+    ingest.poster = { url: await archive.presignedUrl(posterKey) };
+    ingest["capture-images"] = false;
+  }
+  if (thumbnailKey) {
+    ingest.thumbnail = { url: await archive.presignedUrl(thumbnailKey) };
+  }
+
+  // A replace ingest keeps existing text tracks, so only re-add them if the
+  // video has lost them
+  if (metadata?.text_tracks?.length && !current.text_tracks?.length) {
+    ingest.text_tracks = [];
+    for (const track of metadata.text_tracks) {
+      const key = archive.assetKey(videoId, `track-${track.id}.vtt`);
+      if (!keys.includes(key)) continue;
+      ingest.text_tracks.push({
+        url: await archive.presignedUrl(key),
+        srclang: track.srclang,
+        kind: track.kind,
+        label: track.label,
+        default: track.default,
+      });
+    }
+  }
+
+  const metadataUpdate = metadata
+    ? {
+        name: metadata.name,
+        description: metadata.description,
+        long_description: metadata.long_description,
+        custom_fields: metadata.custom_fields,
+        tags: (metadata.tags ?? []).filter((t) => t !== TAG),
+      }
+    : null;
+
+  if (dryRun) {
+    log.info(
+      `🔎 Dry run (no changes made)\n\nArchived file: ${container}\n\nIngest request:\n${JSON.stringify(ingest, null, 2)}` +
+        (metadataUpdate
+          ? `\n\nMetadata update:\n${JSON.stringify(metadataUpdate, null, 2)}`
+          : `\n\nNo archived metadata, would only remove the "${TAG}" tag`),
+      { videoId, phase: "plan", container, ingest, metadataUpdate },
+    );
+    return;
+  }
+
+  const job = await brightcove.submitIngestRequest(videoId, ingest);
+  log.info(
+    `📤 Ingest job ${job.id} submitted\n` +
+      `   Archived file: ${container}\n` +
+      `   Poster: ${posterKey ? "yes" : "no"}\n` +
+      `   Thumbnail: ${thumbnailKey ? "yes" : "no"}\n` +
+      `   Text tracks: ${ingest.text_tracks?.length ?? 0}`,
+    {
+      videoId,
+      phase: "submit",
+      jobId: job.id,
+      container,
+      poster: posterKey !== undefined,
+      thumbnail: thumbnailKey !== undefined,
+      textTracks: ingest.text_tracks?.length ?? 0,
+    },
+  );
+
+  if (metadataUpdate) {
+    await brightcove.updateVideo(videoId, metadataUpdate);
+    log.info(`✅ Metadata restored from ${archive.metadataKey(videoId)}`, {
+      videoId,
+      phase: "metadata",
+    });
+  } else {
+    await removeTag(brightcove, videoId, TAG);
+    log.warn(`⚠️  No archived metadata, only removed the "${TAG}" tag`, {
+      videoId,
+      phase: "metadata",
+    });
+  }
+
+  const restoredAt = new Date().toISOString();
+  restoreLog.push({
+    videoId,
+    jobId: job.id,
+    restoredAt,
+    container,
+    metadataRestored: metadata !== null,
+    poster: posterKey !== undefined,
+    thumbnail: thumbnailKey !== undefined,
+    textTracks: ingest.text_tracks?.length ?? 0,
+  });
+  await Bun.write(RESTORE_LOG_FILE, JSON.stringify(restoreLog, null, 2));
+  await markRestored(videoId, { restoredAt, restoreJobId: job.id });
+
+  log.info(
+    `\nCheck progress with: bun run check-job-status.ts ${videoId} ${job.id}`,
+  );
+}
+
+main().catch((err) => {
+  log.error("\n🔴 MAIN CRASHED:", {
+    ...errorFields(err),
+    stack: err instanceof Error ? err.stack : String(err),
+  });
+  process.exit(1);
+});
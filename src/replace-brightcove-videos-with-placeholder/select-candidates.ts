@@ -0,0 +1,282 @@
+/**
+ * Select videos to replace with the placeholder.
+ *
+ * A video is a candidate if it was published before --published-before and
+ * had at most --max-impressions impressions between --from and --to
+ * according to the Analytics API. Publish dates come from the CMS API.
+ * Videos already tagged "placeholder-replaced" and videos that were never
+ * published (unless --include-unpublished) are left out.
+ *
+ * Writes the candidate IDs to --out (default replace_candidates.txt, usable
+ * as --ids-file for replace-with-placeholder.ts) and the evidence for every
+ * video considered, candidate or not, to a CSV next to it.
+ *
+ * Videos are read from --ids-file if given, otherwise all videos of the
+ * account are listed.
+ *
+ * Usage:
+ *   bun run select-candidates.ts [--from <date>] [--to <date>] [--published-before <date>]
+ *     [--max-impressions <n>] [--include-unpublished] [--out <path>] [--ids-file <path>] [config flags]
+ *
+ * Defaults match the original selection: no impressions in 2024 and 2025,
+ * published before 1.1.24.
+ */
+
+import {
+  BrightcoveApiError,
+  createBrightcoveClient,
+  loadCredentials,
+  type BrightcoveClient,
+  type BrightcoveVideo,
+} from "../shared/brightcove-client.ts";
+import { flagValue } from "../shared/args.ts";
+import { loadConfig } from "../shared/config.ts";
+import { EXIT_USAGE } from "../shared/exit-codes.ts";
+import { csvField } from "../shared/format.ts";
+import { readIdList } from "../shared/id-list.ts";
+import { createLogger, errorFields } from "../shared/logger.ts";
+import { REPLACED_TAG } from "../sync-brightcove-videos-to-s3/archive-assets.ts";
+
+const CMS_PAGE_SIZE = 100;
+const ANALYTICS_PAGE_SIZE = 1000;
+
+interface Evidence {
+  videoId: string;
+  name: string;
+  state: string;
+  publishedAt: string | null;
+  impressions: number;
+  views: number;
+  candidate: boolean;
+  reason: string;
+}
+
+const scriptDir = import.meta.dir;
+
+const { config, args } = await loadConfig();
+const log = createLogger("select-candidates", args);
+
+const from = flagValue(args, "--from", "2024-01-01");
+const to = flagValue(args, "--to", "2025-12-31");
+const publishedBefore = flagValue(args, "--published-before", "2024-01-01");
+const maxImpressions = Number(flagValue(args, "--max-impressions", "0"));
+const includeUnpublished = args.includes("--include-unpublished");
+const outPath = flagValue(
+  args,
+  "--out",
+  `${scriptDir}/replace_candidates.txt`,
+);
+const csvPath = outPath.replace(/\.txt$/, "") + ".csv";
+
+const isDate = (value: string) => /^\d{4}-\d{2}-\d{2}$/.test(value);
+if (
+  !isDate(from) ||
+  !isDate(to) ||
+  !isDate(publishedBefore) ||
+  !Number.isInteger(maxImpressions) ||
+  maxImpressions < 0
+) {
+  console.error(
+    "Usage: bun run select-candidates.ts [--from YYYY-MM-DD] [--to YYYY-MM-DD] [--published-before YYYY-MM-DD] [--max-impressions <n>] [--include-unpublished] [--out <path>]",
+  );
+  process.exit(EXIT_USAGE);
+}
+
+// The CMS API doesn't page past a limited offset, so the list is walked by
+// creation date instead: each page asks for the videos created at or after
+// the last one seen. Videos at that boundary come again and are skipped by
+// ID; only a full page created at the same instant is paged by offset.
+async function listAllVideos(brightcove: BrightcoveClient): Promise<BrightcoveVideo[]> {
+  const videos = new Map<string, BrightcoveVideo>();
+  let createdFrom: string | undefined;
+  let offset = 0;
+  for (;;) {
+    const page = await brightcove.listVideos({
+      q: createdFrom ? `created_at:${createdFrom}..` : undefined,
+      sort: "created_at",
+      limit: CMS_PAGE_SIZE,
+      offset,
+    });
+    for (const video of page) videos.set(video.id, video);
+    log.info(`  Listed ${videos.size} videos...`, { phase: "list" });
+    if (page.length < CMS_PAGE_SIZE) return [...videos.values()];
+
+    const last = page.at(-1)!.created_at;
+    if (last === undefined || last === createdFrom) {
+      offset += CMS_PAGE_SIZE;
+    } else {
+      createdFrom = last;
+      offset = 0;
+    }
+  }
+}
+
+async function fetchVideos(
+  brightcove: BrightcoveClient,
+  ids: string[],
+): Promise<BrightcoveVideo[]> {
+  const videos: BrightcoveVideo[] = [];
+  let next = 0;
+
+  async function worker() {
+    while (next < ids.length) {
+      const videoId = ids[next++]!;
+      try {
+        videos.push(await brightcove.getVideo(videoId));
+      } catch (error) {
+        if (error instanceof BrightcoveApiError && error.status === 404) {
+          log.warn(`  ⚠️  ${videoId}: not found, skipped`, {
+            videoId,
+            phase: "fetch",
+            ...errorFields(error),
+          });
+          continue;
+        }
+        throw error;
+      }
+    }
+  }
+
+  await Promise.all(Array.from({ length: config.concurrency }, worker));
+  return videos;
+}
+
+// Impressions and views per video ID for the date range. Videos without
+// any activity don't appear in the report.
+async function fetchActivity(
+  brightcove: BrightcoveClient,
+): Promise<Map<string, { impressions: number; views: number }>> {
+  const activity = new Map<string, { impressions: number; views: number }>();
+  for (let offset = 0; ; offset += ANALYTICS_PAGE_SIZE) {
+    const report = await brightcove.getAnalytics({
+      dimensions: "video",
+      fields: "video,video_impression,video_view",
+      from,
+      to,
+      limit: ANALYTICS_PAGE_SIZE,
+      offset,
+    });
+    for (const item of report.items) {
+      if (!item.video) continue;
+      activity.set(item.video, {
+        impressions: item.video_impression ?? 0,
+        views: item.video_view ?? 0,
+      });
+    }
+    if (offset + ANALYTICS_PAGE_SIZE >= report.item_count) return activity;
+  }
+}
+
+function evaluate(
+  video: BrightcoveVideo,
+  activity: { impressions: number; views: number } | undefined,
+): Evidence {
+  const impressions = activity?.impressions ?? 0;
+  const views = activity?.views ?? 0;
+  const publishedAt = video.published_at ?? null;
+
+  let reason: string;
+  let candidate = false;
+  if (video.tags?.includes(REPLACED_TAG)) {
+    reason = "already replaced";
+  } else if (!publishedAt && !includeUnpublished) {
+    reason = "never published";
+  } else if (publishedAt && publishedAt.slice(0, 10) >= publishedBefore) {
+    reason = `published on or after ${publishedBefore}`;
+  } else if (impressions > maxImpressions) {
+    reason = `${impressions} impressions (max ${maxImpressions})`;
+  } else {
+    candidate = true;
+    reason = `${impressions} impressions between ${from} and ${to}`;
+  }
+
+  return {
+    videoId: video.id,
+    name: video.name,
+    state: video.state,
+    publishedAt,
+    impressions,
+    views,
+    candidate,
+    reason,
+  };
+}
+
+async function main() {
+  const brightcove = createBrightcoveClient(
+    await loadCredentials(config.secretFile, config.accountId),
+  );
+
+  log.info(`\n🔎 Selecting replacement candidates`);
+  log.info(`   Impressions between ${from} and ${to}: at most ${maxImpressions}`);
+  log.info(`   Published before: ${publishedBefore}`);
+  log.info(
+    `   Unpublished videos: ${includeUnpublished ? "included" : "excluded"}\n`,
+  );
+
+  const videos = config.idsFile
+    ? await fetchVideos(brightcove, await readIdList(config.idsFile))
+    : await listAllVideos(brightcove);
+  log.info(`Loaded ${videos.length} videos from the CMS API`);
+
+  const activity = await fetchActivity(brightcove);
+  log.info(
+    `Loaded activity for ${activity.size} videos from the Analytics API\n`,
+  );
+
+  const evidence = videos
+    .map((video) => evaluate(video, activity.get(video.id)))
+    .sort((a, b) => a.videoId.localeCompare(b.videoId));
+  const candidates = evidence.filter((e) => e.candidate);
+
+  const header = `brightcoveID assets which have at most ${maxImpressions} impressions between ${from} and ${to} and published before ${publishedBefore}`;
+  await Bun.write(
+    outPath,
+    [header, ...candidates.map((e) => e.videoId)].join("\n") + "\n",
+  );
+
+  const columns: (keyof Evidence)[] = [
+    "videoId",
+    "name",
+    "state",
+    "publishedAt",
+    "impressions",
+    "views",
+    "candidate",
+    "reason",
+  ];
+  const rows = evidence.map((e) => columns.map((c) => csvField(e[c])).join(","));
+  await Bun.write(csvPath, [columns.join(","), ...rows].join("\n") + "\n");
+
+  for (const e of evidence) {
+    log.debug(`${e.candidate ? "✓" : "-"} ${e.videoId}: ${e.reason}`, {
+      videoId: e.videoId,
+      phase: "evaluate",
+      candidate: e.candidate,
+      impressions: e.impressions,
+      views: e.views,
+    });
+  }
+
+  log.info(`=== Candidate Selection ===`);
+  log.info(`Videos considered: ${evidence.length}`);
+  log.info(`Candidates: ${candidates.length}`);
+  const excluded = new Map<string, number>();
+  for (const e of evidence.filter((e) => !e.candidate)) {
+    const key = e.reason.replace(/^\d+ impressions.*/, "too many impressions");
+    excluded.set(key, (excluded.get(key) ?? 0) + 1);
+  }
+  for (const [reason, count] of excluded) {
+    log.info(`Excluded (${reason}): ${count}`);
+  }
+  log.info(`\nCandidate IDs saved to ${outPath}`);
+  log.info(`Evidence saved to ${csvPath}`);
+}
+
+main().catch((err) => {
+  log.error("\n🔴 MAIN CRASHED:", {
+    ...errorFields(err),
+    stack: err instanceof Error ? err.stack : String(err),
+  });
+  process.exit(1);
+});
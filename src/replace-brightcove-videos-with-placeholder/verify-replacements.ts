@@ -0,0 +1,272 @@
+/**
+ * Verify that replaced videos actually serve the placeholder.
+ *
+ * For every video in replace_checkpoint.json whose job is finished (or only
+ * those in --ids-file), checks that:
+ *   - the video has sources
+ *   - the duration of the video, its sources and its dynamic renditions
+ *     matches placeholder_with_audio.mp4 (within --tolerance-ms, default 500)
+ *   - no source or rendition is larger than the placeholder's frame size,
+ *     which would mean the original renditions are still served
+ *   - the placeholder-replaced tag is present
+ *
+ * Videos failing a check are printed and, like all others, written with the
+ * failed checks to replace_verification.json. Videos whose job isn't
+ * finished are listed as not verified, videos restored with
+ * restore-from-s3.ts as restored.
+ *
+ * Usage:
+ *   bun run verify-replacements.ts [--ids-file <path>] [--tolerance-ms <n>] [config flags]
+ */
+
+import {
+  createBrightcoveClient,
+  loadCredentials,
+} from "../shared/brightcove-client.ts";
+import { loadConfig } from "../shared/config.ts";
+import { EXIT_USAGE } from "../shared/exit-codes.ts";
+import { readIdList } from "../shared/id-list.ts";
+import { createLogger, errorFields } from "../shared/logger.ts";
+import { readMp4Info, type Mp4Info } from "./mp4-info.ts";
+import { loadReplaceCheckpoint } from "./replace-checkpoint.ts";
+import { inspectVideo, type VideoInspection } from "./video-inspection.ts";
+
+const TAG = "placeholder-replaced";
+const PLACEHOLDER_NAME = "placeholder_with_audio.mp4";
+
+const scriptDir = import.meta.dir;
+
+const { config, args } = await loadConfig({ concurrency: 10 });
+const CONCURRENCY = config.concurrency;
+
+const toleranceIndex = args.indexOf("--tolerance-ms");
+const toleranceMs =
+  toleranceIndex >= 0 ? Number(args[toleranceIndex + 1]) : 500;
+if (!Number.isFinite(toleranceMs) || toleranceMs < 0) {
+  console.error(
+    "Usage: bun run verify-replacements.ts [--ids-file <path>] [--tolerance-ms <n>]",
+  );
+  process.exit(EXIT_USAGE);
+}
+
+const log = createLogger("verify-replacements", args);
+
+type Check =
+  | "no-sources"
+  | "duration-mismatch"
+  | "rendition-mismatch"
+  | "tag-missing";
+
+interface Problem {
+  check: Check;
+  detail: string;
+}
+
+interface VerificationResult {
+  videoId: string;
+  jobId: string;
+  // "not-finished": the job isn't finished, the video wasn't checked
+  // "restored": restored from S3 since, the video wasn't checked
+  status: "ok" | "failed" | "not-finished" | "restored" | "error";
+  problems: Problem[];
+  error?: string;
+}
+
+// Failed checks of a replaced video against the placeholder
+function checkVideo(
+  { video, sources, dynamicRenditions }: VideoInspection,
+  placeholder: Mp4Info,
+): Problem[] {
+  const problems: Problem[] = [];
+
+  if (sources.length === 0) {
+    problems.push({ check: "no-sources", detail: "no sources" });
+  }
+
+  const durations = [
+    { label: "video", duration: video.duration },
+    ...sources.map((s, i) => ({
+      label: `source ${i + 1} (${s.container ?? s.type ?? "unknown"})`,
+      duration: s.duration,
+    })),
+    ...(dynamicRenditions ?? []).map((r) => ({
+      label: `rendition ${r.rendition_id}`,
+      duration: r.duration,
+    })),
+  ];
+  const wrongDurations = durations.filter(
+    ({ duration }) =>
+      duration != null &&
+      Math.abs(duration - placeholder.durationMs) > toleranceMs,
+  );
+  if (wrongDurations.length > 0) {
+    problems.push({
+      check: "duration-mismatch",
+      detail: wrongDurations
+        .map(({ label, duration }) => `${label}: ${duration}ms`)
+        .join(", "),
+    });
+  }
+
+  const sizes = [
+    ...sources.map((s) => ({ width: s.width, height: s.height })),
+    ...(dynamicRenditions ?? []).map((r) => ({
+      width: r.frame_width,
+      height: r.frame_height,
+    })),
+  ];
+  const tooLarge = sizes.filter(
+    ({ width, height }) =>
+      (width ?? 0) > placeholder.width || (height ?? 0) > placeholder.height,
+  );
+  if (tooLarge.length > 0) {
+    problems.push({
+      check: "rendition-mismatch",
+      detail: [...new Set(tooLarge.map((s) => `${s.width}x${s.height}`))].join(
+        ", ",
+      ),
+    });
+  }
+
+  if (!(video.tags ?? []).includes(TAG)) {
+    problems.push({ check: "tag-missing", detail: `no "${TAG}" tag` });
+  }
+  return problems;
+}
+
+async function main() {
+  const placeholder = await readMp4Info(`${scriptDir}/${PLACEHOLDER_NAME}`);
+  const checkpoint = await loadReplaceCheckpoint();
+  const onlyIds = config.idsFile
+    ? new Set(await readIdList(config.idsFile))
+    : null;
+  const videoIds = Object.keys(checkpoint.jobs)
+    .filter((id) => !onlyIds || onlyIds.has(id))
+    .sort();
+
+  const brightcove = createBrightcoveClient({
+    ...(await loadCredentials(config.secretFile, config.accountId)),
+    onTokenRefresh: (expiresIn) =>
+      log.info(`Brightcove token refreshed (expires in ${expiresIn}s)`, {
+        phase: "auth",
+        expiresIn,
+      }),
+  });
+
+  log.info(`\n🔍 Verifying ${videoIds.length} replaced videos`);
+  log.info(
+    `Placeholder: ${placeholder.width}x${placeholder.height}, ${placeholder.durationMs}ms (tolerance ${toleranceMs}ms)\n`,
+  );
+
+  const results: VerificationResult[] = [];
+  let next = 0;
+
+  async function worker() {
+    while (next < videoIds.length) {
+      const videoId = videoIds[next++]!;
+      const { jobId, state, restoredAt } = checkpoint.jobs[videoId]!;
+
+      if (restoredAt) {
+        results.push({ videoId, jobId, status: "restored", problems: [] });
+        log.debug(`- ${videoId}: restored ${restoredAt}, not verified`, {
+          videoId,
+          phase: "verify",
+          jobId,
+        });
+        continue;
+      }
+      if (state !== "finished") {
+        results.push({ videoId, jobId, status: "not-finished", problems: [] });
+        log.debug(`- ${videoId}: job ${state ?? "submitted"}, not verified`, {
+          videoId,
+          phase: "verify",
+          jobId,
+        });
+        continue;
+      }
+
+      try {
+        const problems = checkVideo(
+          await inspectVideo(brightcove, videoId),
+          placeholder,
+        );
+        results.push({
+          videoId,
+          jobId,
+          status: problems.length > 0 ? "failed" : "ok",
+          problems,
+        });
+        if (problems.length > 0) {
+          const summary = problems
+            .map((p) => `${p.check} (${p.detail})`)
+            .join("; ");
+          log.warn(`✗ ${videoId}: ${summary}`, {
+            videoId,
+            phase: "verify",
+            jobId,
+            checks: problems.map((p) => p.check),
+          });
+        } else {
+          log.debug(`✓ ${videoId}: serves the placeholder`, {
+            videoId,
+            phase: "verify",
+            jobId,
+          });
+        }
+      } catch (error) {
+        const errorMsg = error instanceof Error ? error.message : String(error);
+        results.push({
+          videoId,
+          jobId,
+          status: "error",
+          problems: [],
+          error: errorMsg,
+        });
+        log.error(`✗ ${videoId}: ${errorMsg}`, {
+          videoId,
+          phase: "verify",
+          ...errorFields(error),
+        });
+      }
+    }
+  }
+
+  await Promise.all(Array.from({ length: CONCURRENCY }, worker));
+  results.sort((a, b) => a.videoId.localeCompare(b.videoId));
+
+  await Bun.write(
+    `${scriptDir}/replace_verification.json`,
+    JSON.stringify(
+      { createdAt: new Date().toISOString(), placeholder, toleranceMs, results },
+      null,
+      2,
+    ),
+  );
+
+  const withStatus = (status: VerificationResult["status"]) =>
+    results.filter((r) => r.status === status).length;
+  const withCheck = (check: Check) =>
+    results.filter((r) => r.problems.some((p) => p.check === check)).length;
+
+  log.info(`\n=== Replacement Verification ===`);
+  log.info(`Serving the placeholder: ${withStatus("ok")}`);
+  log.info(`Failed checks: ${withStatus("failed")}`);
+  log.info(`  No sources: ${withCheck("no-sources")}`);
+  log.info(`  Duration mismatch: ${withCheck("duration-mismatch")}`);
+  log.info(
+    `  Larger renditions than the placeholder: ${withCheck("rendition-mismatch")}`,
+  );
+  log.info(`  Tag missing: ${withCheck("tag-missing")}`);
+  log.info(`Job not finished (not verified): ${withStatus("not-finished")}`);
+  log.info(`Restored from S3 (not verified): ${withStatus("restored")}`);
+  log.info(`Errors: ${withStatus("error")}`);
+  log.info(`\nResults saved to replace_verification.json`);
+}
+
+main().catch((err) => {
+  log.error("\n🔴 MAIN CRASHED:", {
+    ...errorFields(err),
+    stack: err instanceof Error ? err.stack : String(err),
+  });
+  process.exit(1);
+});
@@ -0,0 +1,135 @@
+// What Brightcove knows about a video's playback: the video, its sources,
+// dynamic renditions and ingest jobs, and a one-row summary of them
+
+import {
+  BrightcoveApiError,
+  type BrightcoveClient,
+  type BrightcoveVideo,
+  type DynamicRendition,
+  type IngestJob,
+  type VideoSource,
+} from "../shared/brightcove-client.ts";
+
+export interface VideoInspection {
+  video: BrightcoveVideo;
+  sources: VideoSource[];
+  // null for videos not delivered with Dynamic Delivery
+  dynamicRenditions: DynamicRendition[] | null;
+  ingestJobs: IngestJob[];
+}
+
+export interface InspectionSummary {
+  videoId: string;
+  name: string;
+  state: string;
+  deliveryType: string;
+  durationMs: number | null;
+  sourceCount: number;
+  hasMp4: boolean;
+  hasHls: boolean;
+  // Largest width x height of the sources and renditions, "" if none
+  maxResolution: string;
+  // Dynamic renditions, or the MP4 renditions for other delivery types
+  renditionCount: number;
+  hasDigitalMaster: boolean;
+  lastJobState: string;
+  lastJobError: string;
+  // Set when the video couldn't be inspected
+  error: string;
+}
+
+export async function inspectVideo(
+  client: BrightcoveClient,
+  videoId: string,
+): Promise<VideoInspection> {
+  const video = await client.getVideo(videoId);
+  const sources = await client.getSources(videoId);
+  // The endpoint answers 404 for videos that don't use Dynamic Delivery.
+  // Rate limits (already retried by the client) and server errors are thrown.
+  const dynamicRenditions = await client
+    .getDynamicRenditions(videoId)
+    .catch((error) => {
+      if (error instanceof BrightcoveApiError && error.status === 404) {
+        return null;
+      }
+      throw error;
+    });
+  const ingestJobs = await client.getIngestJobs(videoId);
+  return { video, sources, dynamicRenditions, ingestJobs };
+}
+
+const jobTime = (job: IngestJob) =>
+  job.submitted_at ?? job.started_at ?? job.updated_at ?? "";
+
+// The most recently submitted ingest job
+export function lastIngestJob(jobs: IngestJob[]): IngestJob | null {
+  return (
+    [...jobs].sort((a, b) => jobTime(b).localeCompare(jobTime(a)))[0] ?? null
+  );
+}
+
+function isHlsSource(source: VideoSource): boolean {
+  return (
+    source.type === "application/x-mpegURL" ||
+    source.type === "application/vnd.apple.mpegurl"
+  );
+}
+
+export function summarizeInspection(
+  inspection: VideoInspection,
+): InspectionSummary {
+  const { video, sources, dynamicRenditions, ingestJobs } = inspection;
+
+  const sizes = [
+    ...sources.map((s) => [s.width, s.height]),
+    ...(dynamicRenditions ?? []).map((r) => [r.frame_width, r.frame_height]),
+  ].filter((size): size is [number, number] => !!size[0] && !!size[1]);
+  const largest = sizes.sort((a, b) => b[0] * b[1] - a[0] * a[1])[0];
+
+  // Sources list every rendition once per protocol
+  const mp4Renditions = new Set(
+    sources
+      .filter((s) => s.container === "MP4")
+      .map((s) => `${s.width}x${s.height}@${s.encoding_rate}`),
+  );
+
+  const lastJob = lastIngestJob(ingestJobs);
+  return {
+    videoId: video.id,
+    name: video.name,
+    state: video.state,
+    deliveryType: video.delivery_type ?? "",
+    durationMs: video.duration ?? null,
+    sourceCount: sources.length,
+    hasMp4: mp4Renditions.size > 0,
+    hasHls: sources.some(isHlsSource),
+    maxResolution: largest ? `${largest[0]}x${largest[1]}` : "",
+    renditionCount: dynamicRenditions?.length ?? mp4Renditions.size,
+    hasDigitalMaster: video.has_digital_master ?? false,
+    lastJobState: lastJob?.state ?? "",
+    lastJobError: lastJob?.error_code
+      ? `${lastJob.error_code}: ${lastJob.error_message ?? ""}`
+      : "",
+    error: "",
+  };
+}
+
+// Summary row for a video whose inspection failed
+export function failedSummary(videoId: string, error: string): InspectionSummary {
+  return {
+    videoId,
+    name: "",
+    state: "",
+    deliveryType: "",
+    durationMs: null,
+    sourceCount: 0,
+    hasMp4: false,
+    hasHls: false,
+    maxResolution: "",
+    renditionCount: 0,
+    hasDigitalMaster: false,
+    lastJobState: "",
+    lastJobError: "",
+    error,
+  };
+}
@@ -0,0 +1,50 @@
+// Script flags that are not part of the config (see config.ts)
+
+import { CONFIG_VALUE_FLAGS } from "./config.ts";
+
+// Flags followed by a value, so that the value isn't taken for a positional
+// argument like a video ID. A new script flag with a value belongs here.
+export const VALUE_FLAGS = [
+  ...CONFIG_VALUE_FLAGS,
+  // Logging (logger.ts)
+  "--log-format",
+  "--log-level",
+  // Script flags
+  "--category",
+  "--from",
+  "--limit",
+  "--max-impressions",
+  "--older-than",
+  "--out",
+  "--out-dir",
+  "--published-before",
+  "--replace-ids-file",
+  "--tag",
+  "--to",
+  "--tolerance-ms",
+];
+
+// Value of a script flag like `--out <path>`, or the fallback if the flag is
+// not given. A flag given without a value yields "".
+export function flagValue(
+  args: string[],
+  name: string,
+  fallback: string,
+): string {
+  const index = args.indexOf(name);
+  return index >= 0 ? (args[index + 1] ?? "") : fallback;
+}
+
+// The arguments that are neither flags nor flag values, e.g. video IDs
+export function positionals(args: string[]): string[] {
+  const result: string[] = [];
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i]!;
+    if (VALUE_FLAGS.includes(arg)) {
+      i++;
+    } else if (!arg.startsWith("--")) {
+      result.push(arg);
+    }
+  }
+  return result;
+}
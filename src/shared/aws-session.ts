@@ -0,0 +1,112 @@
+// Waiting out an expired AWS SSO session
+//
+// SSO credentials end with the SSO session, which can happen in the middle of
+// a long upload run. Instead of failing every remaining upload, a script
+// pauses its queue and waits until `aws sso login` has been run: the
+// credentials are checked every `pollMs` (or right away when Enter is
+// pressed), with a new S3 client each time, and the queue resumes once they
+// work again. A profile missing from the AWS config files fails the wait
+// with a ConfigError instead: no login brings it back.
+
+import { ConfigError } from "./config.ts";
+import {
+  isExpiredCredentialsError,
+  isMissingProfileError,
+  type S3Archive,
+} from "./s3.ts";
+
+export class CredentialsWaitAbortedError extends Error {
+  constructor() {
+    super("Interrupted while waiting for AWS credentials");
+    this.name = "CredentialsWaitAbortedError";
+  }
+}
+
+export interface AwsSessionGuardOptions {
+  // How often to check for new credentials (default 30s)
+  pollMs?: number;
+  // Aborts the wait with a CredentialsWaitAbortedError
+  signal?: AbortSignal;
+  // Called when a wait starts and when it ends (also if it fails), e.g. to
+  // pause and resume a queue
+  onExpired?: () => void;
+  onResume?: (waitedMs: number) => void;
+}
+
+export interface AwsSessionGuard {
+  // Resolves once the archive's credentials work again. Concurrent callers
+  // share one wait.
+  waitForLogin(): Promise<void>;
+}
+
+// Resolves after `ms`, when Enter is pressed on a terminal, or rejects when
+// the signal aborts
+function nextCheck(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(new CredentialsWaitAbortedError());
+    const stdin = process.stdin.isTTY ? process.stdin : null;
+    const done = (error?: Error) => {
+      clearTimeout(timer);
+      signal?.removeEventListener("abort", onAbort);
+      if (stdin) {
+        stdin.off("data", onEnter);
+        stdin.pause();
+      }
+      if (error) reject(error);
+      else resolve();
+    };
+    const onAbort = () => done(new CredentialsWaitAbortedError());
+    const onEnter = () => done();
+
+    const timer = setTimeout(done, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+    stdin?.on("data", onEnter);
+  });
+}
+
+export function createAwsSessionGuard(
+  archive: S3Archive,
+  options: AwsSessionGuardOptions = {},
+): AwsSessionGuard {
+  const pollMs = options.pollMs ?? 30_000;
+  let waiting: Promise<void> | null = null;
+
+  // Errors other than expired credentials (no access to the bucket, a
+  // missing profile, ...) are thrown: waiting wouldn't fix them
+  async function credentialsWork(): Promise<boolean> {
+    archive.refreshCredentials();
+    try {
+      await archive.checkAccess();
+      return true;
+    } catch (error) {
+      if (isExpiredCredentialsError(error)) return false;
+      if (error instanceof Error && isMissingProfileError(error)) {
+        throw new ConfigError(
+          `${error.message} Check --profile or AWS_PROFILE`,
+        );
+      }
+      throw error;
+    }
+  }
+
+  async function wait(): Promise<void> {
+    const start = Date.now();
+    options.onExpired?.();
+    try {
+      while (!(await credentialsWork())) {
+        await nextCheck(pollMs, options.signal);
+      }
+    } finally {
+      options.onResume?.(Date.now() - start);
+    }
+  }
+
+  return {
+    waitForLogin() {
+      waiting ??= wait().finally(() => {
+        waiting = null;
+      });
+      return waiting;
+    },
+  };
+}
@@ -0,0 +1,446 @@
+// Shared Brightcove API client (OAuth client-credentials, CMS, Dynamic Ingest
+// and Analytics API)
+//
+// Every script talks to Brightcove through this module so token handling,
+// 401 retry and URL construction live in one place. Base URLs are
+// configurable so the client can be pointed at a local mock server.
+
+const DEFAULT_OAUTH_URL = "https://oauth.brightcove.com/v4";
+const DEFAULT_CMS_URL = "https://cms.api.brightcove.com/v1";
+const DEFAULT_INGEST_URL = "https://ingest.api.brightcove.com/v1";
+const DEFAULT_ANALYTICS_URL = "https://analytics.api.brightcove.com/v1";
+
+// Refresh the token this many seconds before Brightcove says it expires
+const DEFAULT_REFRESH_MARGIN_SECONDS = 30;
+
+// 429 responses are retried this many times, waiting for Retry-After or
+// exponential backoff (1s, 2s, 4s, ...) when the header is missing
+const MAX_RATE_LIMIT_RETRIES = 5;
+
+export interface BrightcoveSecret {
+  client_id: string;
+  client_secret: string;
+  maximum_scope: Array<{
+    identity: {
+      "account-id": number | string;
+    };
+  }>;
+}
+
+export interface BrightcoveCredentials {
+  accountId: string;
+  clientId: string;
+  clientSecret: string;
+}
+
+export interface BrightcoveClientOptions extends BrightcoveCredentials {
+  oauthBaseUrl?: string;
+  cmsBaseUrl?: string;
+  ingestBaseUrl?: string;
+  analyticsBaseUrl?: string;
+  refreshMarginSeconds?: number;
+  // Called whenever a new access token has been fetched
+  onTokenRefresh?: (expiresIn: number) => void;
+  // Called before waiting out a 429 response
+  onRateLimit?: (retryAfterMs: number) => void;
+}
+
+export interface BrightcoveVideo {
+  id: string;
+  name: string;
+  description?: string | null;
+  long_description?: string | null;
+  state: string;
+  complete?: boolean;
+  delivery_type?: string;
+  has_digital_master?: boolean;
+  duration?: number | null;
+  tags?: string[];
+  custom_fields?: Record<string, string>;
+  images?: {
+    poster?: VideoImage;
+    thumbnail?: VideoImage;
+  };
+  text_tracks?: TextTrack[];
+  created_at?: string;
+  updated_at?: string;
+  published_at?: string | null;
+}
+
+export interface VideoImage {
+  src: string;
+  sources?: Array<{ src: string; width?: number; height?: number }>;
+}
+
+export interface TextTrack {
+  id: string;
+  src: string;
+  srclang?: string;
+  label?: string;
+  kind?: string;
+  mime_type?: string;
+  default?: boolean;
+  sources?: Array<{ src: string }>;
+}
+
+export interface VideoSource {
+  src: string;
+  container?: string;
+  type?: string;
+  codec?: string;
+  width?: number;
+  height?: number;
+  encoding_rate?: number;
+  size?: number;
+  duration?: number;
+  // Present on DRM-protected sources
+  key_systems?: Record<string, unknown>;
+}
+
+// The original file the video was ingested from. url is only returned for
+// accounts that allow downloading masters.
+export interface DigitalMaster {
+  id?: string;
+  width?: number;
+  height?: number;
+  size?: number;
+  duration?: number;
+  encoding_rate?: number;
+  url?: string;
+}
+
+export interface DynamicRendition {
+  rendition_id: string;
+  media_type: string;
+  frame_width?: number;
+  frame_height?: number;
+  encoding_rate?: number;
+  size?: number;
+  duration?: number;
+}
+
+export interface IngestJob {
+  id: string;
+  state: string;
+  account_id?: string;
+  video_id?: string;
+  error_code?: string | null;
+  error_message?: string | null;
+  submitted_at?: string;
+  started_at?: string;
+  updated_at?: string;
+}
+
+// Temporary S3 location for uploading a local file to Dynamic Ingest
+export interface IngestUploadUrls {
+  bucket: string;
+  object_key: string;
+  signed_url: string;
+  api_request_url: string;
+}
+
+export interface IngestRequest {
+  master: { url: string };
+  profile?: string;
+  "capture-images"?: boolean;
+  poster?: { url: string };
+  thumbnail?: { url: string };
+  text_tracks?: Array<{
+    url: string;
+    srclang?: string;
+    kind?: string;
+    label?: string;
+    default?: boolean;
+  }>;
+  callbacks?: string[];
+}
+
+export interface VideoListParams {
+  // CMS search query, e.g. "published_at:..2024-01-01"
+  q?: string;
+  sort?: string;
+  limit?: number;
+  offset?: number;
+}
+
+// One row of an Analytics API /data report. Which metrics are present
+// depends on the requested fields.
+export interface AnalyticsItem {
+  video?: string;
+  video_impression?: number;
+  video_view?: number;
+  [field: string]: string | number | undefined;
+}
+
+export interface AnalyticsReport {
+  item_count: number;
+  items: AnalyticsItem[];
+  summary?: Record<string, number>;
+}
+
+export class BrightcoveApiError extends Error {
+  constructor(
+    readonly status: number,
+    readonly url: string,
+    readonly body: string,
+  ) {
+    super(`Brightcove API error ${status} for ${url}: ${body.substring(0, 200)}`);
+    this.name = "BrightcoveApiError";
+  }
+}
+
+export interface BrightcoveClient {
+  readonly accountId: string;
+  getAccessToken(): Promise<string>;
+  getVideo(videoId: string): Promise<BrightcoveVideo>;
+  listVideos(params?: VideoListParams): Promise<BrightcoveVideo[]>;
+  updateVideo(
+    videoId: string,
+    fields: Partial<Omit<BrightcoveVideo, "id">>,
+  ): Promise<BrightcoveVideo>;
+  getSources(videoId: string): Promise<VideoSource[]>;
+  getDigitalMaster(videoId: string): Promise<DigitalMaster>;
+  getIngestJobs(videoId: string): Promise<IngestJob[]>;
+  getIngestJob(videoId: string, jobId: string): Promise<IngestJob>;
+  getDynamicRenditions(videoId: string): Promise<DynamicRendition[]>;
+  getUploadUrls(videoId: string, sourceName: string): Promise<IngestUploadUrls>;
+  submitIngestRequest(
+    videoId: string,
+    body: IngestRequest,
+  ): Promise<{ id: string }>;
+  // Analytics API /data report for this account, e.g.
+  // { dimensions: "video", fields: "video,video_impression", from: "2024-01-01" }
+  getAnalytics(params: Record<string, string | number>): Promise<AnalyticsReport>;
+}
+
+// Read client id/secret and account id from a secret.json file. The account
+// id from the file can be overridden, e.g. by the --account config flag.
+export async function loadCredentials(
+  secretPath: string,
+  accountIdOverride?: string,
+): Promise<BrightcoveCredentials> {
+  const file = Bun.file(secretPath);
+  if (!(await file.exists())) {
+    throw new Error(`Brightcove secret file not found: ${secretPath}`);
+  }
+  const secret = (await file.json()) as BrightcoveSecret;
+  const accountId =
+    accountIdOverride ?? secret.maximum_scope?.[0]?.identity["account-id"];
+  if (!secret.client_id || !secret.client_secret || !accountId) {
+    throw new Error(
+      `${secretPath} must contain client_id, client_secret and maximum_scope[0].identity["account-id"]`,
+    );
+  }
+  return {
+    accountId: accountId.toString(),
+    clientId: secret.client_id,
+    clientSecret: secret.client_secret,
+  };
+}
+
+// Retry-After is either a number of seconds or an HTTP date
+export function parseRetryAfter(
+  header: string | null,
+  fallbackMs: number,
+): number {
+  if (!header) return fallbackMs;
+  const seconds = Number(header);
+  if (!isNaN(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(header);
+  return isNaN(date) ? fallbackMs : Math.max(0, date - Date.now());
+}
+
+export function createBrightcoveClient(
+  options: BrightcoveClientOptions,
+): BrightcoveClient {
+  const oauthBaseUrl =
+    options.oauthBaseUrl ?? process.env.BRIGHTCOVE_OAUTH_URL ?? DEFAULT_OAUTH_URL;
+  const cmsBaseUrl =
+    options.cmsBaseUrl ?? process.env.BRIGHTCOVE_CMS_URL ?? DEFAULT_CMS_URL;
+  const ingestBaseUrl =
+    options.ingestBaseUrl ??
+    process.env.BRIGHTCOVE_INGEST_URL ??
+    DEFAULT_INGEST_URL;
+  const analyticsBaseUrl =
+    options.analyticsBaseUrl ??
+    process.env.BRIGHTCOVE_ANALYTICS_URL ??
+    DEFAULT_ANALYTICS_URL;
+  const refreshMarginMs =
+    (options.refreshMarginSeconds ?? DEFAULT_REFRESH_MARGIN_SECONDS) * 1000;
+
+  let accessToken = "";
+  let expiresAt = 0;
+
+  // Token refresh with mutex to prevent race conditions
+  let tokenRefreshPromise: Promise<string> | null = null;
+
+  function refreshToken(): Promise<string> {
+    // If already refreshing, wait for that promise
+    if (tokenRefreshPromise) {
+      return tokenRefreshPromise;
+    }
+
+    tokenRefreshPromise = (async () => {
+      const credentials = Buffer.from(
+        `${options.clientId}:${options.clientSecret}`,
+      ).toString("base64");
+      const response = await fetch(`${oauthBaseUrl}/access_token`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/x-www-form-urlencoded",
+          Authorization: `Basic ${credentials}`,
+        },
+        body: "grant_type=client_credentials",
+      });
+      if (!response.ok) {
+        throw new Error(`Failed to get access token: ${response.status}`);
+      }
+      const data = (await response.json()) as {
+        access_token: string;
+        expires_in: number;
+      };
+      accessToken = data.access_token;
+      expiresAt = Date.now() + data.expires_in * 1000;
+      options.onTokenRefresh?.(data.expires_in);
+      return accessToken;
+    })().finally(() => {
+      tokenRefreshPromise = null;
+    });
+
+    return tokenRefreshPromise;
+  }
+
+  async function getAccessToken(): Promise<string> {
+    if (accessToken && Date.now() < expiresAt - refreshMarginMs) {
+      return accessToken;
+    }
+    return refreshToken();
+  }
+
+  function request<T>(
+    path: string,
+    init: RequestInit = {},
+    baseUrl = cmsBaseUrl,
+  ): Promise<T> {
+    return requestUrl(`${baseUrl}/accounts/${options.accountId}${path}`, init);
+  }
+
+  async function requestUrl<T>(url: string, init: RequestInit = {}): Promise<T> {
+    const send = (token: string) =>
+      fetch(url, {
+        ...init,
+        headers: {
+          ...(init.body ? { "Content-Type": "application/json" } : {}),
+          Authorization: `Bearer ${token}`,
+        },
+      });
+
+    const usedToken = await getAccessToken();
+    let response = await send(usedToken);
+
+    // Token was revoked or expired early - refresh once and retry. Skip the
+    // refresh if another request already replaced the token meanwhile.
+    if (response.status === 401) {
+      const token =
+        accessToken === usedToken ? await refreshToken() : await getAccessToken();
+      response = await send(token);
+    }
+
+    // Rate limited - wait and retry
+    for (
+      let attempt = 0;
+      response.status === 429 && attempt < MAX_RATE_LIMIT_RETRIES;
+      attempt++
+    ) {
+      const waitMs = parseRetryAfter(
+        response.headers.get("retry-after"),
+        1000 * 2 ** attempt,
+      );
+      options.onRateLimit?.(waitMs);
+      await new Promise((r) => setTimeout(r, waitMs));
+      response = await send(await getAccessToken());
+    }
+
+    if (!response.ok) {
+      throw new BrightcoveApiError(response.status, url, await response.text());
+    }
+    return (await response.json()) as T;
+  }
+
+  return {
+    accountId: options.accountId,
+    getAccessToken,
+    getVideo: (videoId) => request(`/videos/${videoId}`),
+    listVideos: (params = {}) =>
+      request(`/videos?${toQueryString({ ...params })}`),
+    updateVideo: (videoId, fields) =>
+      request(`/videos/${videoId}`, {
+        method: "PATCH",
+        body: JSON.stringify(fields),
+      }),
+    getSources: (videoId) => request(`/videos/${videoId}/sources`),
+    getDigitalMaster: (videoId) => request(`/videos/${videoId}/digital_master`),
+    getIngestJobs: (videoId) => request(`/videos/${videoId}/ingest_jobs`),
+    getIngestJob: (videoId, jobId) =>
+      request(`/videos/${videoId}/ingest_jobs/${jobId}`),
+    getDynamicRenditions: (videoId) =>
+      request(`/videos/${videoId}/assets/dynamic_renditions`),
+    getUploadUrls: (videoId, sourceName) =>
+      request(
+        `/videos/${videoId}/upload-urls/${encodeURIComponent(sourceName)}`,
+        {},
+        ingestBaseUrl,
+      ),
+    submitIngestRequest: (videoId, body) =>
+      request(
+        `/videos/${videoId}/ingest-requests`,
+        { method: "POST", body: JSON.stringify(body) },
+        ingestBaseUrl,
+      ),
+    getAnalytics: (params) =>
+      requestUrl(
+        `${analyticsBaseUrl}/data?${toQueryString({ accounts: options.accountId, ...params })}`,
+      ),
+  };
+}
+
+function toQueryString(
+  params: Record<string, string | number | undefined>,
+): string {
+  const query = new URLSearchParams();
+  for (const [key, value] of Object.entries(params)) {
+    if (value !== undefined) query.set(key, String(value));
+  }
+  return query.toString();
+}
+
+// Pick the highest resolution progressive MP4 served over https
+export function selectBestMp4Source(
+  sources: VideoSource[],
+): { url: string; resolution: string; size?: number } | null {
+  const mp4Sources = sources.filter(
+    (s) => s.container === "MP4" && s.src?.startsWith("https://"),
+  );
+
+  if (mp4Sources.length === 0) return null;
+
+  mp4Sources.sort((a, b) => (b.height || 0) - (a.height || 0));
+  const best = mp4Sources[0]!;
+  return {
+    url: best.src,
+    resolution: `${best.width}x${best.height}`,
+    size: best.size,
+  };
+}
+
+// Pick an unencrypted HLS master playlist served over https
+export function selectHlsSource(sources: VideoSource[]): string | null {
+  const hls = sources.find(
+    (s) =>
+      (s.type === "application/x-mpegURL" ||
+        s.type === "application/vnd.apple.mpegurl") &&
+      s.src?.startsWith("https://") &&
+      !s.key_systems,
+  );
+  return hls?.src ?? null;
+}
@@ -0,0 +1,272 @@
+// Central configuration for all scripts
+//
+// Values are merged in this order (later wins):
+//   1. built-in defaults (plus per-script defaults)
+//   2. brightcove-migration.config.json in the repository root
+//      (or the file given by --config / BRIGHTCOVE_MIGRATION_CONFIG),
+//      except for per-script keys like idsFile
+//   3. environment variables
+//   4. CLI flags
+//
+// Relative paths from the config file are resolved against the repository
+// root, relative paths from env vars and flags against the working directory.
+
+import { resolve } from "node:path";
+import { EXIT_USAGE } from "./exit-codes.ts";
+
+const REPO_ROOT = resolve(import.meta.dir, "../..");
+
+export interface Config {
+  bucket: string;
+  prefix: string;
+  awsProfile: string;
+  region: string;
+  concurrency: number;
+  // Overrides the account ID from the secret file
+  accountId?: string;
+  secretFile: string;
+  idsFile?: string;
+}
+
+export class ConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ConfigError";
+  }
+}
+
+const DEFAULTS: Config = {
+  bucket: "intranet-static-dc-siemens-com-content",
+  prefix: "brightcove-cleanup/",
+  awsProfile: "722716701248",
+  region: "eu-central-1",
+  concurrency: 5,
+  secretFile: `${REPO_ROOT}/secret.json`,
+};
+
+const DEFAULT_CONFIG_FILE = `${REPO_ROOT}/brightcove-migration.config.json`;
+
+type ConfigKey = keyof Config;
+
+// CLI flag and env var for each config key
+const SOURCES: Record<ConfigKey, { flag: string; env: string }> = {
+  bucket: { flag: "--bucket", env: "S3_BUCKET" },
+  prefix: { flag: "--prefix", env: "S3_PREFIX" },
+  awsProfile: { flag: "--profile", env: "AWS_PROFILE" },
+  region: { flag: "--region", env: "AWS_REGION" },
+  concurrency: { flag: "--concurrency", env: "CONCURRENCY" },
+  accountId: { flag: "--account", env: "BRIGHTCOVE_ACCOUNT_ID" },
+  secretFile: { flag: "--secret", env: "BRIGHTCOVE_SECRET_FILE" },
+  idsFile: { flag: "--ids-file", env: "IDS_FILE" },
+};
+
+// Config flags, all of which take a value
+export const CONFIG_VALUE_FLAGS = [
+  ...Object.values(SOURCES).map((source) => source.flag),
+  "--config",
+];
+
+const PATH_KEYS: ConfigKey[] = ["secretFile", "idsFile"];
+
+// Keys whose default differs per script (the sync and replace ID lists are
+// different files). They are only taken from env vars and flags, never from
+// the config file, where they would apply to every script.
+const PER_SCRIPT_KEYS: ConfigKey[] = ["idsFile"];
+const FILE_KEYS = Object.keys(SOURCES).filter(
+  (key) => !PER_SCRIPT_KEYS.includes(key as ConfigKey),
+);
+
+// Flags that are part of the config and described in every usage text
+export const CONFIG_FLAGS_USAGE = `Config flags:
+  --bucket <name>       S3 bucket (env S3_BUCKET)
+  --prefix <prefix>     S3 key prefix (env S3_PREFIX)
+  --profile <profile>   AWS SSO profile (env AWS_PROFILE)
+  --region <region>     AWS region (env AWS_REGION)
+  --concurrency <n>     Parallel operations (env CONCURRENCY)
+  --account <id>        Brightcove account ID (env BRIGHTCOVE_ACCOUNT_ID)
+  --secret <path>       Brightcove secret file (env BRIGHTCOVE_SECRET_FILE)
+  --ids-file <path>     Video ID list (env IDS_FILE)
+  --config <path>       Config file (env BRIGHTCOVE_MIGRATION_CONFIG)`;
+
+function validate(config: Config): Config {
+  if (!config.bucket || config.bucket.startsWith("s3://") || /\s/.test(config.bucket)) {
+    throw new ConfigError(
+      `Invalid bucket "${config.bucket}": expected a bucket name without s3://`,
+    );
+  }
+  if (config.prefix && !config.prefix.endsWith("/")) {
+    config.prefix = `${config.prefix}/`;
+  }
+  if (config.prefix.startsWith("/")) {
+    throw new ConfigError(`Invalid prefix "${config.prefix}": must not start with /`);
+  }
+  if (!config.awsProfile) {
+    throw new ConfigError("AWS profile must not be empty");
+  }
+  if (!/^[a-z]{2}(-[a-z]+)+-\d$/.test(config.region)) {
+    throw new ConfigError(`Invalid AWS region "${config.region}"`);
+  }
+  if (
+    !Number.isInteger(config.concurrency) ||
+    config.concurrency < 1 ||
+    config.concurrency > 100
+  ) {
+    throw new ConfigError(
+      `Invalid concurrency "${config.concurrency}": expected an integer between 1 and 100`,
+    );
+  }
+  if (config.accountId !== undefined && !/^\d+$/.test(config.accountId)) {
+    throw new ConfigError(
+      `Invalid Brightcove account ID "${config.accountId}": expected digits only`,
+    );
+  }
+  return config;
+}
+
+// Convert a raw string/number value to the type of the config key
+function coerce(key: ConfigKey, value: unknown, origin: string): unknown {
+  if (key === "concurrency") {
+    const n = typeof value === "number" ? value : Number(value);
+    if (isNaN(n)) {
+      throw new ConfigError(`${origin}: concurrency must be a number, got "${value}"`);
+    }
+    return n;
+  }
+  if (typeof value !== "string" && typeof value !== "number") {
+    throw new ConfigError(`${origin}: ${key} must be a string`);
+  }
+  return String(value);
+}
+
+async function readConfigFile(
+  path: string,
+  required: boolean,
+): Promise<Partial<Config>> {
+  const file = Bun.file(path);
+  if (!(await file.exists())) {
+    if (required) throw new ConfigError(`Config file not found: ${path}`);
+    return {};
+  }
+
+  let data: unknown;
+  try {
+    data = await file.json();
+  } catch (error) {
+    const errorMsg = error instanceof Error ? error.message : String(error);
+    throw new ConfigError(`Config file ${path} is not valid JSON: ${errorMsg}`);
+  }
+  if (typeof data !== "object" || data === null || Array.isArray(data)) {
+    throw new ConfigError(`Config file ${path} must contain a JSON object`);
+  }
+
+  const result: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(data)) {
+    if (PER_SCRIPT_KEYS.includes(key as ConfigKey)) {
+      throw new ConfigError(
+        `"${key}" can't be set in ${path}: it differs per script, use ${SOURCES[key as ConfigKey].flag} or ${SOURCES[key as ConfigKey].env} instead`,
+      );
+    }
+    if (!FILE_KEYS.includes(key)) {
+      throw new ConfigError(
+        `Unknown key "${key}" in ${path} (allowed: ${FILE_KEYS.join(", ")})`,
+      );
+    }
+    const coerced = coerce(key as ConfigKey, value, path);
+    result[key] = PATH_KEYS.includes(key as ConfigKey)
+      ? resolve(REPO_ROOT, coerced as string)
+      : coerced;
+  }
+  return result as Partial<Config>;
+}
+
+export interface ParsedConfig {
+  config: Config;
+  // Arguments that are not config flags (positionals and script flags)
+  args: string[];
+}
+
+// Parse config flags out of argv and merge all config sources. Throws
+// ConfigError for missing or malformed values.
+export async function parseConfig(
+  argv: string[] = process.argv.slice(2),
+  defaults: Partial<Config> = {},
+  env: Record<string, string | undefined> = process.env,
+): Promise<ParsedConfig> {
+  const flagValues: Record<string, unknown> = {};
+  const args: string[] = [];
+  let configPath = env.BRIGHTCOVE_MIGRATION_CONFIG;
+
+  const flagToKey = new Map(
+    Object.entries(SOURCES).map(([key, s]) => [s.flag, key as ConfigKey]),
+  );
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i]!;
+    const [flag, inlineValue] = arg.includes("=")
+      ? [arg.slice(0, arg.indexOf("=")), arg.slice(arg.indexOf("=") + 1)]
+      : [arg, undefined];
+
+    const key = flagToKey.get(flag);
+    if (!key && flag !== "--config") {
+      args.push(arg);
+      continue;
+    }
+
+    const value = inlineValue ?? argv[++i];
+    if (value === undefined || value === "" || value.startsWith("--")) {
+      throw new ConfigError(`Missing value for ${flag}`);
+    }
+    if (flag === "--config") {
+      configPath = value;
+    } else {
+      flagValues[key!] = coerce(key!, value, flag);
+    }
+  }
+
+  const fileValues = await readConfigFile(
+    configPath ? resolve(configPath) : DEFAULT_CONFIG_FILE,
+    configPath !== undefined,
+  );
+
+  const envValues: Record<string, unknown> = {};
+  for (const [key, { env: name }] of Object.entries(SOURCES)) {
+    const value = env[name];
+    if (value !== undefined && value !== "") {
+      envValues[key] = coerce(key as ConfigKey, value, name);
+    }
+  }
+
+  // Relative paths from env vars and flags are relative to the working dir
+  for (const values of [envValues, flagValues]) {
+    for (const key of PATH_KEYS) {
+      if (typeof values[key] === "string") {
+        values[key] = resolve(values[key] as string);
+      }
+    }
+  }
+
+  const config = validate({
+    ...DEFAULTS,
+    ...defaults,
+    ...fileValues,
+    ...envValues,
+    ...flagValues,
+  } as Config);
+
+  return { config, args };
+}
+
+// parseConfig() for scripts: prints config errors and exits
+export async function loadConfig(
+  defaults: Partial<Config> = {},
+): Promise<ParsedConfig> {
+  try {
+    return await parseConfig(process.argv.slice(2), defaults);
+  } catch (error) {
+    if (error instanceof ConfigError) {
+      console.error(`❌ Config error: ${error.message}`);
+      process.exit(EXIT_USAGE);
+    }
+    throw error;
+  }
+}
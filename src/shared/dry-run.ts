@@ -0,0 +1,63 @@
+// Dry-run support for mutating commands
+//
+// With --dry-run a command resolves sources and checks checkpoints as usual
+// but makes no write calls (no S3 uploads, no Brightcove PATCH or ingest
+// requests, no checkpoint updates). Instead it writes a plan file listing
+// what would happen to each video.
+
+import { formatBytes } from "./format.ts";
+import type { Logger } from "./logger.ts";
+
+export const DRY_RUN_FLAG = "--dry-run";
+
+export interface PlanEntry {
+  videoId: string;
+  // e.g. "upload", "skip", "tag", "replace"
+  action: string;
+  bytes?: number;
+  detail?: string;
+}
+
+export function isDryRun(args: string[]): boolean {
+  return args.includes(DRY_RUN_FLAG);
+}
+
+// Write the plan to a JSON file and log a per-action summary
+export async function writePlan(
+  path: string,
+  entries: PlanEntry[],
+  log: Logger,
+): Promise<void> {
+  const byAction = new Map<string, { count: number; bytes: number }>();
+  for (const entry of entries) {
+    const total = byAction.get(entry.action) ?? { count: 0, bytes: 0 };
+    total.count++;
+    total.bytes += entry.bytes ?? 0;
+    byAction.set(entry.action, total);
+  }
+
+  const totalBytes = entries.reduce((sum, e) => sum + (e.bytes ?? 0), 0);
+  await Bun.write(
+    path,
+    JSON.stringify(
+      { createdAt: new Date().toISOString(), totalBytes, entries },
+      null,
+      2,
+    ),
+  );
+
+  log.info(`\n=== Dry Run Plan (no changes made) ===`, { phase: "plan" });
+  for (const [action, { count, bytes }] of byAction) {
+    log.info(
+      `${action}: ${count} videos${bytes > 0 ? ` (${formatBytes(bytes)})` : ""}`,
+      { phase: "plan", action, count, bytes },
+    );
+  }
+  if (totalBytes > 0) {
+    log.info(`Estimated total: ${formatBytes(totalBytes)}`, {
+      phase: "plan",
+      bytes: totalBytes,
+    });
+  }
+  log.info(`\nPlan saved to ${path}`, { phase: "plan", path });
+}
@@ -0,0 +1,10 @@
+// Process exit codes shared by all scripts and the brightcove-migration CLI
+
+// Finished; individual videos may still have failed (see the checkpoints)
+export const EXIT_OK = 0;
+// The run failed or crashed
+export const EXIT_FAILURE = 1;
+// Invalid arguments or config; nothing was done
+export const EXIT_USAGE = 2;
+// Stopped with Ctrl-C or SIGTERM; re-run to continue
+export const EXIT_INTERRUPTED = 130;
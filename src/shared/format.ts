@@ -0,0 +1,14 @@
+// Formatting for console output, reports and CSV files
+
+export function formatBytes(bytes: number): string {
+  const gb = bytes / 1024 / 1024 / 1024;
+  return gb >= 1
+    ? `${gb.toFixed(2)} GB`
+    : `${(bytes / 1024 / 1024).toFixed(2)} MB`;
+}
+
+// One CSV field, quoted if it contains a quote, comma or newline
+export function csvField(value: string | number | boolean | null): string {
+  const text = value === null ? "" : String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
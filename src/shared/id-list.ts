@@ -0,0 +1,17 @@
+// Brightcove video IDs are numeric
+export function isVideoId(value: string): boolean {
+  return /^\d+$/.test(value);
+}
+
+// Parse a list of video IDs (one per line), skipping headers and blank lines
+export function parseIdList(text: string): string[] {
+  return text
+    .split("\n")
+    .map((line) => line.trim())
+    .filter(isVideoId);
+}
+
+// Read a list of video IDs from a file
+export async function readIdList(path: string): Promise<string[]> {
+  return parseIdList(await Bun.file(path).text());
+}
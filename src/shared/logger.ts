@@ -0,0 +1,196 @@
+// Leveled logging with a per-run journal
+//
+// Every event is appended as one JSON line to logs/<script>-<runId>.jsonl in
+// the repository root, whatever the console level, so runs can be grepped
+// and aggregated afterwards, e.g. all failed videos by error class:
+//   jq -r 'select(.level == "error") | .errorClass' logs/upload-to-s3-*.jsonl | sort | uniq -c
+//
+// The console shows the human-readable messages by default (errors on
+// stderr), or the same JSON lines as the journal with --log-format json.
+// --log-level (debug, info, warn, error; default info) filters the console.
+// Both can also be set with LOG_FORMAT and LOG_LEVEL.
+
+import { appendFileSync, mkdirSync } from "node:fs";
+import { relative, resolve } from "node:path";
+import { ConfigError } from "./config.ts";
+import { EXIT_USAGE } from "./exit-codes.ts";
+
+const REPO_ROOT = resolve(import.meta.dir, "../..");
+const LOG_DIR = `${REPO_ROOT}/logs`;
+
+const LEVELS = ["debug", "info", "warn", "error"] as const;
+const FORMATS = ["text", "json"] as const;
+
+export type LogLevel = (typeof LEVELS)[number];
+export type LogFormat = (typeof FORMATS)[number];
+
+export interface LogFields {
+  videoId?: string;
+  // Step of the video's processing, e.g. "resolve", "upload", "tag"
+  phase?: string;
+  durationMs?: number;
+  bytes?: number;
+  attempt?: number;
+  errorClass?: string;
+  error?: string;
+  // Printed below the message on the console
+  stack?: string;
+  [key: string]: unknown;
+}
+
+export interface LogEvent extends LogFields {
+  time: string;
+  level: LogLevel;
+  runId: string;
+  script: string;
+  msg: string;
+}
+
+export interface LogOptions {
+  format: LogFormat;
+  level: LogLevel;
+}
+
+export interface CreateLoggerOptions {
+  // The script prints its result to stdout (e.g. with --json), so all
+  // console logging goes to stderr
+  resultOnStdout?: boolean;
+}
+
+export interface Logger {
+  runId: string;
+  journalPath: string;
+  debug(message: string, fields?: LogFields): void;
+  info(message: string, fields?: LogFields): void;
+  warn(message: string, fields?: LogFields): void;
+  error(message: string, fields?: LogFields): void;
+}
+
+// Flags of the scripts that write a journal, described in their usage text
+export const LOG_FLAGS_USAGE = `Logging flags:
+  --log-format <format> text or json (env LOG_FORMAT)
+  --log-level <level>   debug, info, warn or error (env LOG_LEVEL)`;
+
+// Read --log-format and --log-level (or LOG_FORMAT and LOG_LEVEL). Throws
+// ConfigError for unknown values.
+export function parseLogOptions(
+  args: string[],
+  env: Record<string, string | undefined> = process.env,
+): LogOptions {
+  function option<T extends string>(
+    flag: string,
+    envName: string,
+    allowed: readonly T[],
+    fallback: T,
+  ): T {
+    const index = args.indexOf(flag);
+    const value = index >= 0 ? args[index + 1] : env[envName] || fallback;
+    if (!allowed.includes(value as T)) {
+      throw new ConfigError(
+        `Invalid ${flag} "${value ?? ""}": expected ${allowed.join(", ")}`,
+      );
+    }
+    return value as T;
+  }
+
+  return {
+    format: option("--log-format", "LOG_FORMAT", FORMATS, "text"),
+    level: option("--log-level", "LOG_LEVEL", LEVELS, "info"),
+  };
+}
+
+// error and errorClass fields for a caught error
+export function errorFields(error: unknown): { error: string; errorClass: string } {
+  return error instanceof Error
+    ? { error: error.message, errorClass: error.name }
+    : { error: String(error), errorClass: "Error" };
+}
+
+// The console messages start with status symbols (✓ ✗ ↻ ...) and blank
+// lines, which the journal doesn't need
+function plainMessage(message: string): string {
+  return message.trim().replace(/^[^\p{L}\p{N}]+/u, "");
+}
+
+// 2026-10-19T08:15:00.123Z -> 20261019T081500Z-<random>
+function createRunId(): string {
+  const time = new Date().toISOString().replace(/[-:]|\.\d+/g, "");
+  return `${time}-${crypto.randomUUID().slice(0, 8)}`;
+}
+
+// Logger for a script run: call once at startup with the script's args.
+// Prints config errors and exits, like loadConfig().
+export function createLogger(
+  script: string,
+  args: string[],
+  { resultOnStdout = false }: CreateLoggerOptions = {},
+): Logger {
+  let options: LogOptions;
+  try {
+    options = parseLogOptions(args);
+  } catch (error) {
+    if (error instanceof ConfigError) {
+      console.error(`❌ Config error: ${error.message}`);
+      process.exit(EXIT_USAGE);
+    }
+    throw error;
+  }
+
+  const runId = createRunId();
+  const journalPath = `${LOG_DIR}/${script}-${runId}.jsonl`;
+  const startTime = Date.now();
+  mkdirSync(LOG_DIR, { recursive: true });
+  const print = resultOnStdout ? console.error : console.log;
+
+  function log(level: LogLevel, message: string, fields: LogFields = {}) {
+    const event: LogEvent = {
+      time: new Date().toISOString(),
+      level,
+      runId,
+      script,
+      msg: plainMessage(message),
+      ...fields,
+    };
+    const line = JSON.stringify(event);
+    // Synchronous, so events logged right before process.exit() are kept
+    appendFileSync(journalPath, line + "\n");
+
+    if (LEVELS.indexOf(level) < LEVELS.indexOf(options.level)) return;
+    if (options.format === "json") {
+      print(line);
+      return;
+    }
+    const text = fields.stack ? `${message}\n${fields.stack}` : message;
+    if (level === "error") {
+      console.error(text);
+    } else {
+      print(text);
+    }
+  }
+
+  const logger: Logger = {
+    runId,
+    journalPath,
+    debug: (message, fields) => log("debug", message, fields),
+    info: (message, fields) => log("info", message, fields),
+    warn: (message, fields) => log("warn", message, fields),
+    error: (message, fields) => log("error", message, fields),
+  };
+
+  logger.debug(`Run started: ${process.argv.slice(2).join(" ")}`, {
+    phase: "run",
+    pid: process.pid,
+  });
+  if (options.format === "text") {
+    print(`Journal: ${relative(process.cwd(), journalPath)}`);
+  }
+  process.on("exit", (code) => {
+    logger.debug(`Run finished with exit code ${code}`, {
+      phase: "run",
+      durationMs: Date.now() - startTime,
+      exitCode: code,
+    });
+  });
+
+  return logger;
+}
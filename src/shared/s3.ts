@@ -0,0 +1,206 @@
+// Shared S3 access to the Brightcove backup bucket
+
+import {
+  GetObjectCommand,
+  GetObjectTaggingCommand,
+  HeadObjectCommand,
+  ListObjectsV2Command,
+  NotFound,
+  PutObjectTaggingCommand,
+  S3Client,
+} from "@aws-sdk/client-s3";
+import { fromIni } from "@aws-sdk/credential-providers";
+import { getSignedUrl } from "@aws-sdk/s3-request-presigner";
+import { NodeHttpHandler } from "@smithy/node-http-handler";
+import { Agent } from "node:https";
+import type { Config } from "./config.ts";
+
+// Object tag holding the SHA-256 (hex) of the archived MP4. Stored as a tag
+// because the hash is only known after the streaming upload has finished.
+export const CHECKSUM_TAG_KEY = "sha256";
+
+export interface S3ObjectEntry {
+  key: string;
+  size: number;
+  etag?: string;
+  lastModified?: string;
+}
+
+export interface S3Archive {
+  // Replaced by refreshCredentials(), so don't keep a reference to it
+  readonly client: S3Client;
+  readonly bucket: string;
+  readonly prefix: string;
+  // S3 key of the archived MP4 for a video
+  videoKey(videoId: string): string;
+  // S3 key of the archived CMS video object
+  metadataKey(videoId: string): string;
+  // S3 key of an archived image or text track, e.g. <id>.poster.jpg
+  assetKey(videoId: string, name: string): string;
+  // Size of an object, or null if it doesn't exist
+  headObject(key: string): Promise<{ size: number } | null>;
+  // Every object under the prefix
+  listObjects(): Promise<S3ObjectEntry[]>;
+  storeChecksum(key: string, sha256: string): Promise<void>;
+  getStoredChecksum(key: string): Promise<string | undefined>;
+  // Time-limited GET URL, e.g. for Brightcove to ingest an archived file
+  presignedUrl(key: string, expiresInSeconds?: number): Promise<string>;
+  // Cheap request that fails if the credentials don't work
+  checkAccess(): Promise<void>;
+  // Re-create the client, re-reading the credentials of the AWS profile
+  // (e.g. after `aws sso login`)
+  refreshCredentials(): void;
+}
+
+// Error names of the AWS SDK for expired or missing SSO credentials
+const EXPIRED_CREDENTIALS_ERRORS = [
+  "ExpiredToken",
+  "ExpiredTokenException",
+  "TokenRefreshRequired",
+  "CredentialsProviderError",
+  "TokenProviderError",
+  "InvalidAccessKeyId",
+  "InvalidToken",
+];
+
+// The credential providers throw CredentialsProviderError for a missing or
+// misspelled profile as well ("Could not resolve credentials using profile:
+// [...]", "Profile ... could not be found")
+const MISSING_PROFILE_PATTERN =
+  /could not resolve credentials using profile|profile \S+ (could not be found|was not found)/i;
+
+// True if the AWS profile doesn't exist in the AWS config files, which no
+// `aws sso login` fixes
+export function isMissingProfileError(error: unknown): boolean {
+  return (
+    error instanceof Error &&
+    error.name === "CredentialsProviderError" &&
+    MISSING_PROFILE_PATTERN.test(error.message)
+  );
+}
+
+// True for errors that `aws sso login` fixes: expired session tokens and
+// credential provider failures ("The SSO session associated with this
+// profile has expired", "The provided token has expired")
+export function isExpiredCredentialsError(error: unknown): boolean {
+  if (!(error instanceof Error) || isMissingProfileError(error)) return false;
+  return (
+    EXPIRED_CREDENTIALS_ERRORS.includes(error.name) ||
+    /(token|sso session).*(has )?expired/i.test(error.message)
+  );
+}
+
+// Shared by all clients, so clients re-created by refreshCredentials() reuse
+// the open connections
+let requestHandler: NodeHttpHandler | null = null;
+
+export function createS3Client(
+  config: Pick<Config, "awsProfile" | "region">,
+): S3Client {
+  // Keep-alive agent for connection reuse
+  requestHandler ??= new NodeHttpHandler({
+    httpsAgent: new Agent({
+      keepAlive: true,
+      maxSockets: 25,
+    }),
+    connectionTimeout: 30000,
+    socketTimeout: 300000,
+  });
+
+  return new S3Client({
+    // Re-read the profile files, so a new client picks up a new SSO login
+    credentials: fromIni({ profile: config.awsProfile, ignoreCache: true }),
+    region: config.region,
+    requestHandler,
+  });
+}
+
+export function createS3Archive(
+  config: Pick<Config, "bucket" | "prefix" | "awsProfile" | "region">,
+  createClient: () => S3Client = () => createS3Client(config),
+): S3Archive {
+  const { bucket, prefix } = config;
+  let client = createClient();
+
+  return {
+    get client() {
+      return client;
+    },
+    bucket,
+    prefix,
+    videoKey: (videoId) => `${prefix}${videoId}.mp4`,
+    metadataKey: (videoId) => `${prefix}${videoId}.json`,
+    assetKey: (videoId, name) => `${prefix}${videoId}.${name}`,
+
+    async headObject(key) {
+      try {
+        const head = await client.send(
+          new HeadObjectCommand({ Bucket: bucket, Key: key }),
+        );
+        return { size: head.ContentLength ?? 0 };
+      } catch (error) {
+        if (error instanceof NotFound) return null;
+        throw error;
+      }
+    },
+
+    async listObjects() {
+      const objects: S3ObjectEntry[] = [];
+      let continuationToken: string | undefined;
+      do {
+        const page = await client.send(
+          new ListObjectsV2Command({
+            Bucket: bucket,
+            Prefix: prefix,
+            ContinuationToken: continuationToken,
+          }),
+        );
+        for (const object of page.Contents ?? []) {
+          objects.push({
+            key: object.Key!,
+            size: object.Size ?? 0,
+            etag: object.ETag,
+            lastModified: object.LastModified?.toISOString(),
+          });
+        }
+        continuationToken = page.NextContinuationToken;
+      } while (continuationToken);
+      return objects;
+    },
+
+    async storeChecksum(key, sha256) {
+      await client.send(
+        new PutObjectTaggingCommand({
+          Bucket: bucket,
+          Key: key,
+          Tagging: { TagSet: [{ Key: CHECKSUM_TAG_KEY, Value: sha256 }] },
+        }),
+      );
+    },
+
+    async getStoredChecksum(key) {
+      const tagging = await client.send(
+        new GetObjectTaggingCommand({ Bucket: bucket, Key: key }),
+      );
+      return tagging.TagSet?.find((tag) => tag.Key === CHECKSUM_TAG_KEY)
+        ?.Value;
+    },
+
+    presignedUrl: (key, expiresInSeconds = 6 * 60 * 60) =>
+      getSignedUrl(client, new GetObjectCommand({ Bucket: bucket, Key: key }), {
+        expiresIn: expiresInSeconds,
+      }),
+
+    async checkAccess() {
+      await client.send(
+        new ListObjectsV2Command({ Bucket: bucket, Prefix: prefix, MaxKeys: 1 }),
+      );
+    },
+
+    // The old client isn't destroyed: requests still in flight on it would
+    // fail, and its connections belong to the shared request handler
+    refreshCredentials() {
+      client = createClient();
+    },
+  };
+}
@@ -0,0 +1,51 @@
+// Tag helpers on top of the Brightcove client
+
+import type { BrightcoveClient } from "./brightcove-client.ts";
+
+export type TagMode = "add" | "remove";
+
+// Add or remove tags on a video. Tags the video already has (or doesn't have,
+// when removing) are left alone, so running it again changes nothing. Returns
+// the tags that were changed; with dryRun the video is only read.
+export async function updateTags(
+  client: BrightcoveClient,
+  videoId: string,
+  tags: string[],
+  mode: TagMode,
+  dryRun = false,
+): Promise<string[]> {
+  const video = await client.getVideo(videoId);
+  const currentTags = video.tags || [];
+  const changed = [...new Set(tags)].filter(
+    (tag) => currentTags.includes(tag) === (mode === "remove"),
+  );
+  if (changed.length === 0 || dryRun) {
+    return changed;
+  }
+  await client.updateVideo(videoId, {
+    tags:
+      mode === "add"
+        ? [...currentTags, ...changed]
+        : currentTags.filter((t) => !changed.includes(t)),
+  });
+  return changed;
+}
+
+// Add a tag to a video unless it already has it. Returns true if the video
+// was changed.
+export async function addTag(
+  client: BrightcoveClient,
+  videoId: string,
+  tag: string,
+): Promise<boolean> {
+  return (await updateTags(client, videoId, [tag], "add")).length > 0;
+}
+
+// Remove a tag from a video if present. Returns true if the video was changed.
+export async function removeTag(
+  client: BrightcoveClient,
+  videoId: string,
+  tag: string,
+): Promise<boolean> {
+  return (await updateTags(client, videoId, [tag], "remove")).length > 0;
+}
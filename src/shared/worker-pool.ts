@@ -0,0 +1,197 @@
+// Continuous work-queue pool with adaptive concurrency
+//
+// Keeps up to `concurrency` tasks in flight at all times: a new task starts
+// as soon as any task finishes, so one slow item never blocks the others.
+// The concurrency limit adapts to what the pool observes:
+//   - throttle() (e.g. a 429 with Retry-After) halves it and pauses new tasks
+//     (pause() and resume() pause without changing it)
+//   - a window with a high error rate halves it
+//   - otherwise it grows by one per window while throughput keeps improving,
+//     and shrinks by one when the last increase made throughput worse
+
+export interface TaskOutcome {
+  ok: boolean;
+  // Work done by the task (e.g. bytes uploaded), used to measure throughput.
+  // Completed tasks are counted when no units are reported.
+  units?: number;
+}
+
+export interface WorkerPoolOptions {
+  // Initial number of tasks in flight
+  concurrency: number;
+  minConcurrency?: number;
+  maxConcurrency?: number;
+  // Adapt concurrency to throughput and error rate (default true)
+  adaptive?: boolean;
+  // Error rate in a window above which concurrency is halved
+  maxErrorRate?: number;
+  onConcurrencyChange?: (concurrency: number, reason: string) => void;
+}
+
+export interface WorkerPool {
+  readonly concurrency: number;
+  readonly active: number;
+  // Pause starting new tasks for `pauseMs` and reduce concurrency
+  throttle(pauseMs: number, reason?: string): void;
+  // Start no new tasks until resume(), e.g. while credentials are renewed
+  pause(): void;
+  resume(): void;
+  // Stop starting new tasks; run() resolves once the tasks in flight finish
+  stop(): void;
+  // Process all items; resolves when every task has finished. A task that
+  // throws counts as failed and is reported through onError.
+  run<T>(
+    items: T[],
+    handler: (item: T) => Promise<TaskOutcome>,
+    onError?: (item: T, error: unknown) => void,
+  ): Promise<void>;
+}
+
+export function createWorkerPool(options: WorkerPoolOptions): WorkerPool {
+  const minConcurrency = options.minConcurrency ?? 1;
+  const maxConcurrency = options.maxConcurrency ?? options.concurrency * 2;
+  const adaptive = options.adaptive ?? true;
+  const maxErrorRate = options.maxErrorRate ?? 0.2;
+
+  let limit = options.concurrency;
+  let active = 0;
+  let pausedUntil = 0;
+  let paused = false;
+  let stopped = false;
+  // Re-evaluates the running queue after resume() and stop()
+  let wake: (() => void) | null = null;
+
+  // Measurement window
+  let windowStart = Date.now();
+  let windowDone = 0;
+  let windowErrors = 0;
+  let windowUnits = 0;
+  let lastThroughput: number | null = null;
+  let lastChange: "up" | "down" | null = null;
+
+  function setLimit(value: number, reason: string) {
+    const next = Math.min(maxConcurrency, Math.max(minConcurrency, value));
+    if (next !== limit) {
+      limit = next;
+      options.onConcurrencyChange?.(limit, reason);
+    }
+  }
+
+  function resetWindow() {
+    windowStart = Date.now();
+    windowDone = 0;
+    windowErrors = 0;
+    windowUnits = 0;
+  }
+
+  function record(outcome: TaskOutcome) {
+    windowDone++;
+    if (!outcome.ok) windowErrors++;
+    windowUnits += outcome.units ?? 0;
+
+    // Evaluate after a few rounds of the current concurrency
+    if (!adaptive || windowDone < Math.max(10, limit * 2)) return;
+
+    const seconds = Math.max((Date.now() - windowStart) / 1000, 0.001);
+    const throughput = (windowUnits > 0 ? windowUnits : windowDone) / seconds;
+    const errorRate = windowErrors / windowDone;
+
+    if (errorRate > maxErrorRate) {
+      setLimit(
+        Math.floor(limit / 2),
+        `error rate ${(errorRate * 100).toFixed(0)}%`,
+      );
+      lastChange = "down";
+    } else if (
+      lastThroughput !== null &&
+      lastChange === "up" &&
+      throughput < lastThroughput
+    ) {
+      setLimit(limit - 1, "throughput dropped");
+      lastChange = "down";
+    } else {
+      setLimit(limit + 1, "throughput stable");
+      lastChange = "up";
+    }
+
+    lastThroughput = throughput;
+    resetWindow();
+  }
+
+  return {
+    get concurrency() {
+      return limit;
+    },
+    get active() {
+      return active;
+    },
+
+    throttle(pauseMs, reason = "throttled") {
+      pausedUntil = Math.max(pausedUntil, Date.now() + pauseMs);
+      setLimit(Math.floor(limit / 2), reason);
+      lastChange = "down";
+      resetWindow();
+    },
+
+    pause() {
+      paused = true;
+    },
+
+    resume() {
+      paused = false;
+      wake?.();
+    },
+
+    stop() {
+      stopped = true;
+      wake?.();
+    },
+
+    run(items, handler, onError) {
+      let next = 0;
+
+      return new Promise<void>((resolve) => {
+        let timer: ReturnType<typeof setTimeout> | null = null;
+
+        const fill = () => {
+          if ((stopped || next >= items.length) && active === 0) {
+            if (timer) clearTimeout(timer);
+            wake = null;
+            resolve();
+            return;
+          }
+          if (stopped || paused) return;
+
+          const wait = pausedUntil - Date.now();
+          if (wait > 0) {
+            if (!timer) {
+              timer = setTimeout(() => {
+                timer = null;
+                fill();
+              }, wait);
+            }
+            return;
+          }
+
+          while (active < limit && next < items.length) {
+            const item = items[next++]!;
+            active++;
+            handler(item)
+              .catch((error): TaskOutcome => {
+                onError?.(item, error);
+                return { ok: false };
+              })
+              .then((outcome) => {
+                active--;
+                record(outcome);
+                fill();
+              });
+          }
+        };
+
+        wake = fill;
+        fill();
+      });
+    },
+  };
+}
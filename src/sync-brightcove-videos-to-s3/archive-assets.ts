@@ -0,0 +1,104 @@
+// Archive everything besides the MP4 that is needed to restore a video:
+// the full CMS video object, poster, thumbnail and WebVTT text tracks.
+//
+// Stored next to <id>.mp4 under the same prefix:
+//   <id>.json                  - CMS video object (written last)
+//   <id>.poster.<ext>          - poster image
+//   <id>.thumbnail.<ext>       - thumbnail image
+//   <id>.track-<trackId>.vtt   - one file per text track
+
+import { PutObjectCommand } from "@aws-sdk/client-s3";
+import type { BrightcoveClient } from "../shared/brightcove-client.ts";
+import type { S3Archive } from "../shared/s3.ts";
+
+// Tag replace-with-placeholder.ts puts on videos it replaced
+export const REPLACED_TAG = "placeholder-replaced";
+
+// The video's media was already replaced with the placeholder, so its current
+// CMS object and images no longer describe the original. Archiving them
+// would overwrite the real archive.
+export class AlreadyReplacedError extends Error {
+  constructor(readonly videoId: string) {
+    super(`Already tagged "${REPLACED_TAG}", keeping the existing archive`);
+    this.name = "AlreadyReplacedError";
+  }
+}
+
+export interface ArchivedAssets {
+  metadata: string;
+  images: string[];
+  textTracks: string[];
+}
+
+// File extension of a URL path, e.g. "jpg" for .../poster.jpg?x=1
+export function extensionOf(url: string, fallback: string): string {
+  const match = new URL(url).pathname.match(/\.([a-z0-9]+)$/i);
+  return match ? match[1]!.toLowerCase() : fallback;
+}
+
+async function copyToS3(
+  archive: S3Archive,
+  url: string,
+  key: string,
+  contentType: string,
+): Promise<void> {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Failed to fetch ${url}: ${response.status}`);
+  }
+  await archive.client.send(
+    new PutObjectCommand({
+      Bucket: archive.bucket,
+      Key: key,
+      Body: new Uint8Array(await response.arrayBuffer()),
+      ContentType: response.headers.get("content-type") ?? contentType,
+    }),
+  );
+}
+
+export async function archiveVideoAssets(
+  archive: S3Archive,
+  brightcove: BrightcoveClient,
+  videoId: string,
+): Promise<ArchivedAssets> {
+  const video = await brightcove.getVideo(videoId);
+  if (video.tags?.includes(REPLACED_TAG)) {
+    throw new AlreadyReplacedError(videoId);
+  }
+  const archived: ArchivedAssets = {
+    metadata: archive.metadataKey(videoId),
+    images: [],
+    textTracks: [],
+  };
+
+  for (const name of ["poster", "thumbnail"] as const) {
+    const image = video.images?.[name];
+    if (!image?.src) continue;
+    const key = archive.assetKey(
+      videoId,
+      `${name}.${extensionOf(image.src, "jpg")}`,
+    );
+    await copyToS3(archive, image.src, key, "image/jpeg");
+    archived.images.push(key);
+  }
+
+  for (const track of video.text_tracks ?? []) {
+    const src = track.src || track.sources?.[0]?.src;
+    if (!src) continue;
+    const key = archive.assetKey(videoId, `track-${track.id}.vtt`);
+    await copyToS3(archive, src, key, "text/vtt");
+    archived.textTracks.push(key);
+  }
+
+  // Written last, so an existing <id>.json means the archive is complete
+  await archive.client.send(
+    new PutObjectCommand({
+      Bucket: archive.bucket,
+      Key: archived.metadata,
+      Body: JSON.stringify(video, null, 2),
+      ContentType: "application/json",
+    }),
+  );
+
+  return archived;
+}
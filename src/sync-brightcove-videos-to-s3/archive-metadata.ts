@@ -0,0 +1,145 @@
+// Archive CMS metadata, poster, thumbnail and text tracks for uploaded videos
+// Usage: bun src/sync-brightcove-videos-to-s3/archive-metadata.ts [--dry-run] [config flags]
+//
+// Covers every video in upload_checkpoint.json. Videos that already have
+// <id>.json in S3 are skipped, so the command is safe to restart. Videos
+// already replaced with the placeholder are skipped as well and listed in
+// archive_replaced.json. With --dry-run, only archive_plan.json is written.
+
+import {
+  createBrightcoveClient,
+  loadCredentials,
+} from "../shared/brightcove-client.ts";
+import { loadConfig } from "../shared/config.ts";
+import { isDryRun, writePlan, type PlanEntry } from "../shared/dry-run.ts";
+import { createLogger, errorFields } from "../shared/logger.ts";
+import { createS3Archive } from "../shared/s3.ts";
+import {
+  AlreadyReplacedError,
+  archiveVideoAssets,
+  REPLACED_TAG,
+} from "./archive-assets.ts";
+import { loadCheckpoint, uploadedIds } from "./upload-checkpoint.ts";
+
+const { config, args } = await loadConfig();
+const CONCURRENCY = config.concurrency;
+const dryRun = isDryRun(args);
+const log = createLogger("archive-metadata", args);
+
+const scriptDir = import.meta.dir;
+const archive = createS3Archive(config);
+const brightcove = createBrightcoveClient({
+  ...(await loadCredentials(config.secretFile, config.accountId)),
+  onTokenRefresh: (expiresIn) =>
+    log.info(`Brightcove token refreshed (expires in ${expiresIn}s)`, {
+      phase: "auth",
+      expiresIn,
+    }),
+});
+
+async function main() {
+  const videoIds = Array.from(uploadedIds(await loadCheckpoint()));
+  log.info(`Archiving metadata for ${videoIds.length} uploaded videos`);
+  log.info(`Concurrency: ${CONCURRENCY}\n`);
+
+  let archivedCount = 0;
+  let skippedCount = 0;
+  const errors: { videoId: string; error: string }[] = [];
+  const replaced: string[] = [];
+  const plan: PlanEntry[] = [];
+  let next = 0;
+
+  async function worker() {
+    while (next < videoIds.length) {
+      const videoId = videoIds[next++]!;
+      const videoStart = Date.now();
+      try {
+        if (await archive.headObject(archive.metadataKey(videoId))) {
+          skippedCount++;
+          plan.push({ videoId, action: "skip", detail: "already archived" });
+          continue;
+        }
+        if (dryRun) {
+          const video = await brightcove.getVideo(videoId);
+          if (video.tags?.includes(REPLACED_TAG)) {
+            replaced.push(videoId);
+            plan.push({ videoId, action: "skip", detail: "already replaced" });
+          } else {
+            plan.push({ videoId, action: "archive" });
+          }
+          continue;
+        }
+        const archived = await archiveVideoAssets(archive, brightcove, videoId);
+        archivedCount++;
+        log.info(
+          `✓ ${videoId} (${archived.images.length} images, ${archived.textTracks.length} text tracks)`,
+          {
+            videoId,
+            phase: "metadata",
+            images: archived.images.length,
+            textTracks: archived.textTracks.length,
+            durationMs: Date.now() - videoStart,
+          },
+        );
+      } catch (error) {
+        if (error instanceof AlreadyReplacedError) {
+          replaced.push(videoId);
+          log.warn(`⊘ ${videoId}: ${error.message}`, {
+            videoId,
+            phase: "metadata",
+            ...errorFields(error),
+          });
+          continue;
+        }
+        const errorMsg = error instanceof Error ? error.message : String(error);
+        errors.push({ videoId, error: errorMsg });
+        log.error(`✗ ${videoId}: ${errorMsg}`, {
+          videoId,
+          phase: "metadata",
+          durationMs: Date.now() - videoStart,
+          ...errorFields(error),
+        });
+      }
+    }
+  }
+
+  await Promise.all(Array.from({ length: CONCURRENCY }, worker));
+
+  if (dryRun) {
+    await writePlan(`${scriptDir}/archive_plan.json`, plan, log);
+    return;
+  }
+
+  log.info(`\n=== Metadata Archive Complete ===`);
+  log.info(
+    `This session: ${archivedCount} archived, ${skippedCount} already archived, ${replaced.length} already replaced, ${errors.length} errors`,
+  );
+
+  if (replaced.length > 0) {
+    await Bun.write(
+      `${scriptDir}/archive_replaced.json`,
+      JSON.stringify(replaced, null, 2),
+    );
+    log.warn(
+      `\n${replaced.length} videos without <id>.json are already replaced with the placeholder, their original metadata can't be archived anymore. List saved to archive_replaced.json`,
+    );
+  }
+
+  if (errors.length > 0) {
+    await Bun.write(
+      `${scriptDir}/archive_errors.json`,
+      JSON.stringify(errors, null, 2),
+    );
+    log.info(`\nErrors saved to archive_errors.json`);
+  }
+
+  log.info(`\nFiles uploaded to: s3://${archive.bucket}/${archive.prefix}`);
+}
+
+main().catch((err) => {
+  log.error("\n🔴 MAIN CRASHED:", {
+    ...errorFields(err),
+    stack: err instanceof Error ? err.stack : String(err),
+  });
+  process.exit(1);
+});
@@ -0,0 +1,148 @@
+// List and abort stale multipart uploads under the S3 prefix
+// Usage: bun src/sync-brightcove-videos-to-s3/cleanup-multipart.ts [--older-than <hours>] [--include-resumable] [--dry-run] [config flags]
+//
+// Incomplete multipart uploads are billed for their parts until they are
+// aborted. Uploads started more than --older-than hours ago (default 24) are
+// aborted. Uploads that upload_checkpoint.json can still resume are kept
+// unless --include-resumable is given; their checkpoint entry is then cleared
+// so the next run starts them from scratch. With --dry-run, uploads are only
+// listed.
+
+import { ListMultipartUploadsCommand } from "@aws-sdk/client-s3";
+import { loadConfig } from "../shared/config.ts";
+import { isDryRun } from "../shared/dry-run.ts";
+import { EXIT_USAGE } from "../shared/exit-codes.ts";
+import { createLogger, errorFields } from "../shared/logger.ts";
+import { createS3Archive } from "../shared/s3.ts";
+import { abortUpload } from "./multipart-upload.ts";
+import {
+  loadCheckpoint,
+  saveCheckpoint,
+  updateRecord,
+} from "./upload-checkpoint.ts";
+
+interface OpenUpload {
+  key: string;
+  uploadId: string;
+  initiated: Date;
+}
+
+const { config, args } = await loadConfig();
+const dryRun = isDryRun(args);
+const includeResumable = args.includes("--include-resumable");
+const log = createLogger("cleanup-multipart", args);
+
+const olderThanIndex = args.indexOf("--older-than");
+const olderThanHours =
+  olderThanIndex >= 0 ? Number(args[olderThanIndex + 1]) : 24;
+if (!Number.isFinite(olderThanHours) || olderThanHours < 0) {
+  console.error("--older-than must be a number of hours");
+  process.exit(EXIT_USAGE);
+}
+
+const archive = createS3Archive(config);
+
+async function listOpenUploads(): Promise<OpenUpload[]> {
+  const uploads: OpenUpload[] = [];
+  let keyMarker: string | undefined;
+  let uploadIdMarker: string | undefined;
+  do {
+    const page = await archive.client.send(
+      new ListMultipartUploadsCommand({
+        Bucket: archive.bucket,
+        Prefix: archive.prefix,
+        KeyMarker: keyMarker,
+        UploadIdMarker: uploadIdMarker,
+      }),
+    );
+    for (const upload of page.Uploads ?? []) {
+      uploads.push({
+        key: upload.Key!,
+        uploadId: upload.UploadId!,
+        initiated: upload.Initiated!,
+      });
+    }
+    keyMarker = page.IsTruncated ? page.NextKeyMarker : undefined;
+    uploadIdMarker = page.IsTruncated ? page.NextUploadIdMarker : undefined;
+  } while (keyMarker);
+  return uploads;
+}
+
+async function main() {
+  const checkpoint = await loadCheckpoint();
+
+  // uploadId -> videoId for uploads the next upload run would resume
+  const resumable = new Map<string, string>();
+  for (const [videoId, record] of Object.entries(checkpoint.videos)) {
+    if (record.multipart) {
+      resumable.set(record.multipart.uploadId, videoId);
+    }
+  }
+
+  const uploads = await listOpenUploads();
+  log.info(
+    `Found ${uploads.length} open multipart uploads under s3://${archive.bucket}/${archive.prefix}\n`,
+  );
+
+  const cutoff = Date.now() - olderThanHours * 60 * 60 * 1000;
+  let abortedCount = 0;
+  let keptCount = 0;
+  let checkpointChanged = false;
+
+  for (const upload of uploads) {
+    const age = `${((Date.now() - upload.initiated.getTime()) / 1000 / 60 / 60).toFixed(1)}h`;
+    const videoId = resumable.get(upload.uploadId);
+    const fields = {
+      videoId,
+      phase: "cleanup",
+      key: upload.key,
+      uploadId: upload.uploadId,
+      initiated: upload.initiated.toISOString(),
+    };
+
+    if (upload.initiated.getTime() > cutoff) {
+      keptCount++;
+      log.info(`  ${upload.key} (${age}) - recent, kept`, fields);
+      continue;
+    }
+    if (videoId && !includeResumable) {
+      keptCount++;
+      log.info(`  ${upload.key} (${age}) - resumable, kept`, fields);
+      continue;
+    }
+
+    if (dryRun) {
+      log.info(`  ${upload.key} (${age}) - would abort`, fields);
+      abortedCount++;
+      continue;
+    }
+
+    await abortUpload(archive, upload.key, upload.uploadId);
+    abortedCount++;
+    log.info(`✓ ${upload.key} (${age}) - aborted`, fields);
+    if (videoId) {
+      updateRecord(checkpoint, videoId, checkpoint.videos[videoId]!.state, {
+        multipart: undefined,
+      });
+      checkpointChanged = true;
+    }
+  }
+
+  if (checkpointChanged) {
+    await saveCheckpoint(checkpoint);
+  }
+
+  log.info(
+    `\n=== Multipart Cleanup ${dryRun ? "Plan (no changes made)" : "Complete"} ===`,
+  );
+  log.info(`${dryRun ? "Would abort" : "Aborted"}: ${abortedCount}`);
+  log.info(`Kept: ${keptCount}`);
+}
+
+main().catch((err) => {
+  log.error("\n🔴 MAIN CRASHED:", {
+    ...errorFields(err),
+    stack: err instanceof Error ? err.stack : String(err),
+  });
+  process.exit(1);
+});
@@ -0,0 +1,273 @@
+// Upload error categories and how each one is retried
+//
+// Every failed upload is recorded with an errorCategory in
+// upload_checkpoint.json. The policy of the category decides whether
+// upload-to-s3.ts retries it right away with a fresh source URL, and whether
+// retry-failed.ts picks it up in a later run.
+
+import { S3ServiceException } from "@aws-sdk/client-s3";
+import { BrightcoveApiError } from "../shared/brightcove-client.ts";
+import {
+  isExpiredCredentialsError,
+  isMissingProfileError,
+} from "../shared/s3.ts";
+import { RemuxError } from "./hls-remux.ts";
+import { TruncatedDownloadError } from "./multipart-upload.ts";
+import { ReplacedVideoError } from "./replaced-videos.ts";
+
+export type ErrorCategory =
+  | "cdn-expired"
+  | "cdn-not-found"
+  | "cdn-error"
+  | "brightcove-4xx"
+  | "brightcove-5xx"
+  | "rate-limited"
+  | "network"
+  | "truncated"
+  | "s3-auth-expired"
+  | "s3-throttled"
+  | "s3-error"
+  | "no-source"
+  | "remux-failed"
+  | "verification"
+  | "other";
+
+export interface RetryPolicy {
+  label: string;
+  // Retried within the same run, with a fresh source URL
+  retryInRun: boolean;
+  // Wait before the in-run retry, multiplied by the retry number
+  retryDelayMs: number;
+  // Selected by retry-failed.ts when no --category is given
+  retryByDefault: boolean;
+  // retry-failed.ts skips videos with this many attempts (unless --force)
+  maxAttempts: number;
+  // Upper bound for --concurrency when retry-failed.ts retries this category
+  maxConcurrency?: number;
+}
+
+export const RETRY_POLICIES: Record<ErrorCategory, RetryPolicy> = {
+  "cdn-expired": {
+    label: "CDN URL expired (401/403)",
+    retryInRun: true,
+    retryDelayMs: 0,
+    retryByDefault: true,
+    maxAttempts: 10,
+  },
+  "cdn-not-found": {
+    label: "CDN file not found (404)",
+    retryInRun: true,
+    retryDelayMs: 0,
+    retryByDefault: true,
+    maxAttempts: 3,
+  },
+  "cdn-error": {
+    label: "Other CDN error",
+    retryInRun: true,
+    retryDelayMs: 5000,
+    retryByDefault: true,
+    maxAttempts: 5,
+  },
+  "brightcove-4xx": {
+    label: "Brightcove API client error (4xx)",
+    retryInRun: false,
+    retryDelayMs: 0,
+    retryByDefault: false,
+    maxAttempts: 2,
+  },
+  "brightcove-5xx": {
+    label: "Brightcove API server error (5xx)",
+    retryInRun: true,
+    retryDelayMs: 10000,
+    retryByDefault: true,
+    maxAttempts: 10,
+  },
+  "rate-limited": {
+    label: "Brightcove rate limit (429)",
+    retryInRun: true,
+    retryDelayMs: 30000,
+    retryByDefault: true,
+    maxAttempts: 10,
+    maxConcurrency: 2,
+  },
+  network: {
+    label: "Network error (connection reset, timeout)",
+    retryInRun: true,
+    retryDelayMs: 2000,
+    retryByDefault: true,
+    maxAttempts: 10,
+  },
+  truncated: {
+    label: "Truncated download",
+    retryInRun: true,
+    retryDelayMs: 0,
+    retryByDefault: true,
+    maxAttempts: 10,
+  },
+  // Not the video's fault. upload-to-s3.ts waits for `aws sso login` instead
+  // of failing, so these are only recorded if the login doesn't help.
+  "s3-auth-expired": {
+    label: "AWS session expired",
+    retryInRun: false,
+    retryDelayMs: 0,
+    retryByDefault: true,
+    maxAttempts: Infinity,
+  },
+  "s3-throttled": {
+    label: "S3 throttling (SlowDown, 503)",
+    retryInRun: true,
+    retryDelayMs: 10000,
+    retryByDefault: true,
+    maxAttempts: Infinity,
+    maxConcurrency: 2,
+  },
+  "s3-error": {
+    label: "Other S3 error",
+    retryInRun: false,
+    retryDelayMs: 0,
+    retryByDefault: true,
+    maxAttempts: 3,
+  },
+  "no-source": {
+    label: "No MP4, digital master or HLS source",
+    retryInRun: false,
+    retryDelayMs: 0,
+    retryByDefault: false,
+    maxAttempts: 2,
+  },
+  "remux-failed": {
+    label: "HLS remux failed or ffmpeg missing",
+    retryInRun: false,
+    retryDelayMs: 0,
+    retryByDefault: false,
+    maxAttempts: 3,
+  },
+  verification: {
+    label: "Failed verification or reconcile",
+    retryInRun: false,
+    retryDelayMs: 0,
+    retryByDefault: true,
+    maxAttempts: 5,
+  },
+  other: {
+    label: "Other error",
+    retryInRun: false,
+    retryDelayMs: 0,
+    retryByDefault: true,
+    maxAttempts: 3,
+  },
+};
+
+export const ERROR_CATEGORIES = Object.keys(RETRY_POLICIES) as ErrorCategory[];
+
+// A non-2xx response from the CDN while downloading a source
+export class CdnError extends Error {
+  constructor(
+    readonly status: number,
+    readonly body: string,
+  ) {
+    super(`CDN error ${status}${body ? `: ${body.substring(0, 200)}` : ""}`);
+    this.name = "CdnError";
+  }
+}
+
+// No MP4, digital master or HLS source for the video
+export class NoSourceError extends Error {
+  constructor() {
+    super("No MP4, digital master or HLS source available");
+    this.name = "NoSourceError";
+  }
+}
+
+const NETWORK_ERROR_CODES = [
+  "ECONNRESET",
+  "ECONNREFUSED",
+  "EPIPE",
+  "ETIMEDOUT",
+  "EHOSTUNREACH",
+  "ENETUNREACH",
+  "ENOTFOUND",
+  "EAI_AGAIN",
+  "ConnectionRefused",
+  "ConnectionClosed",
+  "UND_ERR_SOCKET",
+];
+
+const S3_THROTTLING_ERRORS = [
+  "SlowDown",
+  "Throttling",
+  "ThrottlingException",
+  "RequestLimitExceeded",
+  "TooManyRequestsException",
+  "BandwidthLimitExceeded",
+];
+
+function errorCode(error: Error): string | undefined {
+  const code = (error as { code?: unknown }).code;
+  return typeof code === "string" ? code : undefined;
+}
+
+export function classifyError(error: unknown): ErrorCategory {
+  if (!(error instanceof Error)) return categorizeMessage(String(error));
+
+  if (error instanceof CdnError) {
+    if (error.status === 401 || error.status === 403) return "cdn-expired";
+    if (error.status === 404 || error.status === 410) return "cdn-not-found";
+    return "cdn-error";
+  }
+  if (error instanceof BrightcoveApiError) {
+    if (error.status === 429) return "rate-limited";
+    return error.status >= 500 ? "brightcove-5xx" : "brightcove-4xx";
+  }
+  if (error instanceof TruncatedDownloadError) return "truncated";
+  if (error instanceof NoSourceError) return "no-source";
+  // The original is gone from Brightcove, only the placeholder is left
+  if (error instanceof ReplacedVideoError) return "no-source";
+  if (error instanceof RemuxError) return "remux-failed";
+
+  // S3 errors and the credential provider errors of the AWS SDK. A missing
+  // profile goes the same way: the AWS session guard then ends the run with
+  // a config error instead of waiting for a login.
+  if (isExpiredCredentialsError(error) || isMissingProfileError(error)) {
+    return "s3-auth-expired";
+  }
+  if (S3_THROTTLING_ERRORS.includes(error.name)) return "s3-throttled";
+  if (error instanceof S3ServiceException) {
+    const status = error.$metadata.httpStatusCode;
+    if (status === 503) return "s3-throttled";
+    return "s3-error";
+  }
+
+  const code = errorCode(error) ?? errorCode((error.cause ?? {}) as Error);
+  if (code && NETWORK_ERROR_CODES.includes(code)) return "network";
+  if (error.name === "TimeoutError") return "network";
+
+  return categorizeMessage(error.message);
+}
+
+// Category of an error that is only known by its message: records written
+// before categories existed, and errors set by verify-uploads.ts and
+// reconcile-s3.ts
+export function categorizeMessage(message: string): ErrorCategory {
+  if (/no (mp4|source)|no mp4, digital master/i.test(message)) {
+    return "no-source";
+  }
+  if (/token has expired|ExpiredToken|sso session|credentials/i.test(message)) {
+    return "s3-auth-expired";
+  }
+  if (/SlowDown|reduce your request rate/i.test(message)) return "s3-throttled";
+  if (/Brightcove API error 429/.test(message)) return "rate-limited";
+  if (/Brightcove API error 5\d\d/.test(message)) return "brightcove-5xx";
+  if (/Brightcove API error 4\d\d/.test(message)) return "brightcove-4xx";
+  if (/expired|\b40[13]\b|forbidden|unauthorized/i.test(message)) {
+    return "cdn-expired";
+  }
+  if (/\b404\b|not found/i.test(message)) return "cdn-not-found";
+  if (/truncated/i.test(message)) return "truncated";
+  if (/ffmpeg/i.test(message)) return "remux-failed";
+  if (/ECONNRESET|socket|network|timed? ?out|fetch failed|connection/i.test(message)) {
+    return "network";
+  }
+  if (/reconcile|verification/i.test(message)) return "verification";
+  return "other";
+}
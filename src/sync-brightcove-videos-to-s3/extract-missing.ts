@@ -1,43 +1,68 @@
 // Extract videos that failed or have no sources
+//
+// Status comes from upload_checkpoint.json; videos in video_sources.json
+// without a checkpoint record have not been attempted yet.
 
-const scriptDir = import.meta.dir;
+import { createLogger } from "../shared/logger.ts";
+import { categorizeMessage } from "./error-categories.ts";
+import {
+  isUploaded,
+  loadCheckpoint,
+  type UploadRecord,
+  type UploadState,
+} from "./upload-checkpoint.ts";
+import { loadVideoSources } from "./video-sources.ts";
 
-const videoSources = await Bun.file(`${scriptDir}/video_sources.json`).json() as Array<{
-  videoId: string;
-  url: string | null;
-  resolution: string;
-}>;
-
-let uploadErrors: { videoId: string; error: string }[] = [];
-try {
-  uploadErrors = await Bun.file(`${scriptDir}/upload_errors.json`).json();
-} catch {
-  // File doesn't exist yet
-}
+const scriptDir = import.meta.dir;
+const log = createLogger("extract-missing", process.argv.slice(2));
 
-const noSources = videoSources.filter(v => v.url === null).map(v => v.videoId);
+const videoSources = await loadVideoSources();
+const checkpoint = await loadCheckpoint();
 
-const failedIds = new Set(uploadErrors.map(e => e.videoId));
+const missing: { videoId: string; record: UploadRecord | undefined }[] = [];
+for (const { videoId } of videoSources) {
+  const record = checkpoint.videos[videoId];
+  if (!isUploaded(record)) {
+    missing.push({ videoId, record });
+  }
+}
 
-const allMissing = new Set([...noSources, ...failedIds]);
+const withState = (state: UploadState) =>
+  missing.filter((m) => m.record?.state === state);
+const noSources = withState("no-source");
+const failed = withState("failed");
+const interrupted = withState("uploading");
+const notAttempted = missing.filter(
+  (m) => m.record === undefined || m.record.state === "pending",
+);
 
-console.log(`\n=== Missing Videos Summary ===`);
-console.log(`Videos with no sources: ${noSources.length}`);
-console.log(`Failed uploads: ${uploadErrors.length}`);
-console.log(`Total unique missing: ${allMissing.size}`);
+log.info(`\n=== Missing Videos Summary ===`);
+log.info(`Videos with no sources: ${noSources.length}`);
+log.info(`Failed uploads: ${failed.length}`);
+log.info(`Interrupted uploads: ${interrupted.length}`);
+log.info(`Not attempted yet: ${notAttempted.length}`);
+log.info(`Total unique missing: ${missing.length}`);
 
-const output = Array.from(allMissing).sort().join("\n");
+const output = missing.map((m) => m.videoId).sort().join("\n");
 
 await Bun.write(`${scriptDir}/missing_videos.txt`, output);
-console.log(`\nExtracted ${allMissing.size} missing video IDs to missing_videos.txt`);
+log.info(
+  `\nExtracted ${missing.length} missing video IDs to missing_videos.txt`,
+);
 
 // Also show details about each error
-if (uploadErrors.length > 0) {
-  console.log(`\n=== Failed Upload Details ===`);
-  for (const err of uploadErrors.slice(0, 10)) {
-    console.log(`${err.videoId}: ${err.error}`);
+if (failed.length > 0) {
+  log.info(`\n=== Failed Upload Details ===`);
+  for (const { videoId, record } of failed.slice(0, 10)) {
+    const category =
+      record!.errorCategory ?? categorizeMessage(record!.lastError ?? "");
+    log.info(
+      `${videoId}: [${category}] ${record!.lastError} (${record!.attempts} attempts)`,
+      { videoId, category, error: record!.lastError },
+    );
   }
-  if (uploadErrors.length > 10) {
-    console.log(`... and ${uploadErrors.length - 10} more`);
+  if (failed.length > 10) {
+    log.info(`... and ${failed.length - 10} more`);
   }
+  log.info(`\nRun retry-failed.ts --list for the failures by category`);
 }
@@ -0,0 +1,156 @@
+// Build video_sources.json from brightcoveIds.txt
+// Usage: bun src/sync-brightcove-videos-to-s3/fetch-video-sources.ts [config flags]
+//
+// Resumable: IDs already present in video_sources.json are skipped, and
+// progress is saved every SAVE_EVERY videos. Videos that fail with a
+// transient error are left out so the next run picks them up again.
+
+import {
+  BrightcoveApiError,
+  createBrightcoveClient,
+  loadCredentials,
+  selectBestMp4Source,
+} from "../shared/brightcove-client.ts";
+import { loadConfig } from "../shared/config.ts";
+import { readIdList } from "../shared/id-list.ts";
+import { createLogger, errorFields } from "../shared/logger.ts";
+import {
+  loadVideoSources,
+  saveVideoSources,
+  VIDEO_SOURCES_FILE,
+  type VideoSourceEntry,
+} from "./video-sources.ts";
+
+const SAVE_EVERY = 50;
+
+const scriptDir = import.meta.dir;
+
+const { config, args } = await loadConfig({
+  idsFile: `${scriptDir}/brightcoveIds.txt`,
+});
+const log = createLogger("fetch-video-sources", args);
+const CONCURRENCY = config.concurrency;
+
+const brightcove = createBrightcoveClient({
+  ...(await loadCredentials(config.secretFile, config.accountId)),
+  onTokenRefresh: (expiresIn) =>
+    log.info(`Brightcove token refreshed (expires in ${expiresIn}s)`, {
+      phase: "auth",
+      expiresIn,
+    }),
+});
+
+async function fetchEntry(videoId: string): Promise<VideoSourceEntry> {
+  try {
+    const [video, sources] = await Promise.all([
+      brightcove.getVideo(videoId),
+      brightcove.getSources(videoId),
+    ]);
+    const best = selectBestMp4Source(sources);
+    return {
+      videoId,
+      url: best?.url ?? null,
+      resolution: best?.resolution ?? "N/A",
+      name: video.name,
+      duration: video.duration ?? null,
+      state: video.state,
+      renditionCount: sources.length,
+    };
+  } catch (error) {
+    // Deleted videos are recorded as having no source, like the CDN-less ones
+    if (error instanceof BrightcoveApiError && error.status === 404) {
+      return { videoId, url: null, resolution: "N/A", state: "NOT_FOUND" };
+    }
+    throw error;
+  }
+}
+
+async function main() {
+  const ids = await readIdList(config.idsFile!);
+
+  // A missing file is a first run; a malformed one is thrown, so the save
+  // below never replaces it with only the newly fetched entries
+  const existing: VideoSourceEntry[] = (await Bun.file(
+    VIDEO_SOURCES_FILE,
+  ).exists())
+    ? await loadVideoSources()
+    : [];
+
+  const entries = new Map(existing.map((e) => [e.videoId, e]));
+  const pending = ids.filter((id) => !entries.has(id));
+
+  log.info(`IDs in ${config.idsFile}: ${ids.length}`);
+  log.info(`Already in video_sources.json: ${ids.length - pending.length}`);
+  log.info(`Remaining to fetch: ${pending.length}`);
+  log.info(`Concurrency: ${CONCURRENCY}\n`);
+
+  // Keep the output in the same order as the ID list, followed by any
+  // entries for IDs that are no longer in the list
+  const idSet = new Set(ids);
+  const save = () =>
+    saveVideoSources([
+      ...ids.filter((id) => entries.has(id)).map((id) => entries.get(id)!),
+      ...existing.filter((e) => !idSet.has(e.videoId)),
+    ]);
+
+  let fetched = 0;
+  let errorCount = 0;
+  let next = 0;
+
+  async function worker() {
+    while (next < pending.length) {
+      const videoId = pending[next++]!;
+      const videoStart = Date.now();
+      try {
+        const entry = await fetchEntry(videoId);
+        entries.set(videoId, entry);
+        fetched++;
+        log.info(
+          entry.url
+            ? `✓ ${videoId} (${entry.resolution}, ${entry.renditionCount} sources)`
+            : `- ${videoId}: no MP4 source (${entry.state})`,
+          {
+            videoId,
+            phase: "fetch",
+            resolution: entry.resolution,
+            hasMp4: entry.url !== null,
+            state: entry.state,
+            durationMs: Date.now() - videoStart,
+          },
+        );
+        if (fetched % SAVE_EVERY === 0) {
+          await save();
+        }
+      } catch (error) {
+        errorCount++;
+        const errorMsg = error instanceof Error ? error.message : String(error);
+        log.error(`✗ ${videoId}: ${errorMsg}`, {
+          videoId,
+          phase: "fetch",
+          durationMs: Date.now() - videoStart,
+          ...errorFields(error),
+        });
+      }
+    }
+  }
+
+  await Promise.all(Array.from({ length: CONCURRENCY }, worker));
+  await save();
+
+  const all = Array.from(entries.values());
+  log.info(`\n=== Video Sources Complete ===`);
+  log.info(`This session: ${fetched} fetched, ${errorCount} errors`);
+  log.info(`With MP4 source: ${all.filter((e) => e.url !== null).length}`);
+  log.info(`Without MP4 source: ${all.filter((e) => e.url === null).length}`);
+  if (errorCount > 0) {
+    log.info(`\nRe-run to retry the ${errorCount} failed IDs`);
+  }
+}
+
+main().catch((err) => {
+  log.error("\n🔴 MAIN CRASHED:", {
+    ...errorFields(err),
+    stack: err instanceof Error ? err.stack : String(err),
+  });
+  process.exit(1);
+});
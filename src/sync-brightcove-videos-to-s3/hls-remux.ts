@@ -0,0 +1,86 @@
+// Remux an HLS stream into a local MP4 with ffmpeg
+//
+// Used for videos that have neither a progressive MP4 nor a downloadable
+// digital master. ffmpeg picks the highest resolution video variant and the
+// best audio rendition of the master playlist and copies them into an MP4
+// without re-encoding. ffmpeg must be on the PATH (or set FFMPEG_PATH).
+
+const FFMPEG = process.env.FFMPEG_PATH ?? "ffmpeg";
+
+// Give up on a segment request after 30s without data (microseconds)
+const READ_TIMEOUT_US = 30_000_000;
+
+// ffmpeg is missing or failed to remux the stream
+export class RemuxError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "RemuxError";
+  }
+}
+
+export function isFfmpegAvailable(): boolean {
+  return Bun.which(FFMPEG) !== null;
+}
+
+// Highest RESOLUTION listed in a master playlist, e.g. "1920x1080"
+export async function getHighestVariantResolution(
+  masterUrl: string,
+): Promise<string | null> {
+  const response = await fetch(masterUrl);
+  if (!response.ok) return null;
+  const playlist = await response.text();
+
+  let best: { width: number; height: number } | null = null;
+  for (const match of playlist.matchAll(/RESOLUTION=(\d+)x(\d+)/g)) {
+    const width = parseInt(match[1]!);
+    const height = parseInt(match[2]!);
+    if (!best || height > best.height) best = { width, height };
+  }
+  return best ? `${best.width}x${best.height}` : null;
+}
+
+// Write the remuxed MP4 to outPath. Throws a RemuxError with the end of
+// ffmpeg's output if it fails; the ffmpeg process is killed when `signal` aborts.
+export async function remuxHlsToMp4(
+  masterUrl: string,
+  outPath: string,
+  signal?: AbortSignal,
+): Promise<void> {
+  const proc = Bun.spawn(
+    [
+      FFMPEG,
+      "-hide_banner",
+      "-loglevel",
+      "error",
+      "-y",
+      "-rw_timeout",
+      String(READ_TIMEOUT_US),
+      "-i",
+      masterUrl,
+      "-c",
+      "copy",
+      "-bsf:a",
+      "aac_adtstoasc",
+      "-movflags",
+      "+faststart",
+      outPath,
+    ],
+    { stdout: "ignore", stderr: "pipe" },
+  );
+
+  const onAbort = () => proc.kill();
+  signal?.addEventListener("abort", onAbort, { once: true });
+  try {
+    const [exitCode, stderr] = await Promise.all([
+      proc.exited,
+      new Response(proc.stderr).text(),
+    ]);
+    if (exitCode !== 0) {
+      throw new RemuxError(
+        `ffmpeg exited with ${exitCode}: ${stderr.trim().slice(-300) || "no output"}`,
+      );
+    }
+  } finally {
+    signal?.removeEventListener("abort", onAbort);
+  }
+}
@@ -0,0 +1,305 @@
+// Resumable multipart uploads of a download stream to S3
+//
+// Parts are uploaded while the stream is read (up to PART_QUEUE_SIZE at a
+// time). The caller keeps the upload's state in the checkpoint: an upload
+// interrupted by Ctrl-C, a crash or a dropped connection continues from the
+// last contiguous part S3 has (ListParts), with the download restarted by a
+// Range request at that offset.
+
+import {
+  AbortMultipartUploadCommand,
+  CompleteMultipartUploadCommand,
+  CreateMultipartUploadCommand,
+  GetObjectCommand,
+  ListPartsCommand,
+  NoSuchUpload,
+  UploadPartCommand,
+  type CompletedPart,
+} from "@aws-sdk/client-s3";
+import type { S3Archive } from "../shared/s3.ts";
+
+export const PART_SIZE = 8 * 1024 * 1024;
+const PART_QUEUE_SIZE = 4;
+
+// Stored in the checkpoint while an upload is in progress
+export interface MultipartState {
+  uploadId: string;
+  partSize: number;
+  // Size of the whole source, to detect a different rendition on resume
+  totalBytes?: number;
+}
+
+export class UploadInterruptedError extends Error {
+  constructor() {
+    super("Upload interrupted");
+    this.name = "UploadInterruptedError";
+  }
+}
+
+export class TruncatedDownloadError extends Error {
+  constructor(
+    public readonly bytes: number,
+    public readonly expectedBytes: number,
+  ) {
+    super(`Truncated download: ${bytes} of ${expectedBytes} bytes`);
+    this.name = "TruncatedDownloadError";
+  }
+}
+
+export interface MultipartUpload {
+  state: MultipartState;
+  // Number of source bytes already in S3; the download must start here
+  offset: number;
+  upload(
+    body: ReadableStream<Uint8Array>,
+    options?: {
+      // Total source size; the upload is not completed if fewer bytes arrive
+      expectedBytes?: number;
+      signal?: AbortSignal;
+    },
+  ): Promise<{ etag?: string; bytes: number }>;
+  abort(): Promise<void>;
+}
+
+// Parts S3 already has, up to the first gap. null if the upload is gone
+// (completed, aborted or expired by a lifecycle rule).
+async function listUploadedParts(
+  archive: S3Archive,
+  key: string,
+  uploadId: string,
+  partSize: number,
+): Promise<CompletedPart[] | null> {
+  const parts: { PartNumber: number; ETag: string; Size: number }[] = [];
+  let marker: string | undefined;
+  try {
+    do {
+      const page = await archive.client.send(
+        new ListPartsCommand({
+          Bucket: archive.bucket,
+          Key: key,
+          UploadId: uploadId,
+          PartNumberMarker: marker,
+        }),
+      );
+      for (const part of page.Parts ?? []) {
+        parts.push({
+          PartNumber: part.PartNumber!,
+          ETag: part.ETag!,
+          Size: part.Size ?? 0,
+        });
+      }
+      marker = page.IsTruncated ? page.NextPartNumberMarker : undefined;
+    } while (marker);
+  } catch (error) {
+    if (error instanceof NoSuchUpload) return null;
+    throw error;
+  }
+
+  parts.sort((a, b) => a.PartNumber - b.PartNumber);
+  const contiguous: CompletedPart[] = [];
+  for (const part of parts) {
+    if (part.PartNumber !== contiguous.length + 1 || part.Size !== partSize) {
+      break;
+    }
+    contiguous.push({ PartNumber: part.PartNumber, ETag: part.ETag });
+  }
+  return contiguous;
+}
+
+// Start a new multipart upload, or continue `resume` if S3 still has it
+export async function openMultipartUpload(
+  archive: S3Archive,
+  key: string,
+  options: {
+    contentType: string;
+    totalBytes?: number;
+    resume?: MultipartState;
+  },
+): Promise<MultipartUpload> {
+  const { resume } = options;
+  let parts: CompletedPart[] | null = null;
+
+  if (
+    resume &&
+    (resume.totalBytes === undefined ||
+      options.totalBytes === undefined ||
+      resume.totalBytes === options.totalBytes)
+  ) {
+    parts = await listUploadedParts(
+      archive,
+      key,
+      resume.uploadId,
+      resume.partSize,
+    );
+  } else if (resume) {
+    // The source changed since the upload started
+    await abortUpload(archive, key, resume.uploadId);
+  }
+
+  let state: MultipartState;
+  if (resume && parts) {
+    state = { ...resume, totalBytes: options.totalBytes ?? resume.totalBytes };
+  } else {
+    const created = await archive.client.send(
+      new CreateMultipartUploadCommand({
+        Bucket: archive.bucket,
+        Key: key,
+        ContentType: options.contentType,
+      }),
+    );
+    parts = [];
+    state = {
+      uploadId: created.UploadId!,
+      partSize: PART_SIZE,
+      totalBytes: options.totalBytes,
+    };
+  }
+
+  const completedParts = parts;
+  const offset = parts.length * state.partSize;
+
+  return {
+    state,
+    offset,
+
+    async upload(body, { expectedBytes, signal } = {}) {
+      if (signal?.aborted) throw new UploadInterruptedError();
+
+      const inFlight = new Set<Promise<void>>();
+      let failure: unknown = null;
+      let partNumber = completedParts.length;
+      const buffer: Uint8Array[] = [];
+      let buffered = 0;
+      let bytes = 0;
+
+      const uploadPart = (data: Uint8Array) => {
+        const PartNumber = ++partNumber;
+        const task = archive.client
+          .send(
+            new UploadPartCommand({
+              Bucket: archive.bucket,
+              Key: key,
+              UploadId: state.uploadId,
+              PartNumber,
+              Body: data,
+            }),
+          )
+          .then(({ ETag }) => {
+            completedParts.push({ PartNumber, ETag });
+          })
+          .catch((error) => {
+            failure ??= error;
+          })
+          .finally(() => inFlight.delete(task));
+        inFlight.add(task);
+      };
+
+      // Take `size` bytes off the front of the buffer
+      const take = (size: number): Uint8Array => {
+        const part = new Uint8Array(size);
+        let filled = 0;
+        while (filled < size) {
+          const chunk = buffer[0]!;
+          const n = Math.min(chunk.byteLength, size - filled);
+          part.set(chunk.subarray(0, n), filled);
+          filled += n;
+          if (n === chunk.byteLength) buffer.shift();
+          else buffer[0] = chunk.subarray(n);
+        }
+        buffered -= size;
+        return part;
+      };
+
+      const settle = async () => {
+        await Promise.all([...inFlight]);
+        if (failure) throw failure;
+      };
+
+      // Cancelling the reader ends the read loop below on shutdown
+      const reader = body.getReader();
+      const onAbort = () => void reader.cancel().catch(() => {});
+      signal?.addEventListener("abort", onAbort, { once: true });
+      try {
+        while (!failure) {
+          const { done, value } = await reader.read();
+          if (done) break;
+          buffer.push(value);
+          buffered += value.byteLength;
+          bytes += value.byteLength;
+          while (buffered >= state.partSize) {
+            while (inFlight.size >= PART_QUEUE_SIZE) {
+              await Promise.race(inFlight);
+            }
+            uploadPart(take(state.partSize));
+          }
+        }
+      } finally {
+        signal?.removeEventListener("abort", onAbort);
+        if (failure) onAbort();
+      }
+
+      // Uploaded parts stay in S3 for the next attempt to resume from
+      if (signal?.aborted) {
+        await Promise.all([...inFlight]);
+        throw new UploadInterruptedError();
+      }
+      await settle();
+      if (expectedBytes !== undefined && offset + bytes !== expectedBytes) {
+        throw new TruncatedDownloadError(offset + bytes, expectedBytes);
+      }
+
+      // The last part may be smaller than the part size (or empty)
+      if (buffered > 0 || completedParts.length === 0) {
+        uploadPart(take(buffered));
+      }
+      await settle();
+
+      completedParts.sort((a, b) => a.PartNumber! - b.PartNumber!);
+      const completed = await archive.client.send(
+        new CompleteMultipartUploadCommand({
+          Bucket: archive.bucket,
+          Key: key,
+          UploadId: state.uploadId,
+          MultipartUpload: { Parts: completedParts },
+        }),
+      );
+      return { etag: completed.ETag, bytes: offset + bytes };
+    },
+
+    abort: () => abortUpload(archive, key, state.uploadId),
+  };
+}
+
+export async function abortUpload(
+  archive: S3Archive,
+  key: string,
+  uploadId: string,
+): Promise<void> {
+  try {
+    await archive.client.send(
+      new AbortMultipartUploadCommand({
+        Bucket: archive.bucket,
+        Key: key,
+        UploadId: uploadId,
+      }),
+    );
+  } catch (error) {
+    if (!(error instanceof NoSuchUpload)) throw error;
+  }
+}
+
+// SHA-256 of an object in S3. Used for resumed uploads, where the first part
+// of the file was streamed (and hashed) by an earlier run.
+export async function hashStoredObject(
+  archive: S3Archive,
+  key: string,
+): Promise<string> {
+  const object = await archive.client.send(
+    new GetObjectCommand({ Bucket: archive.bucket, Key: key }),
+  );
+  const hasher = new Bun.CryptoHasher("sha256");
+  for await (const chunk of object.Body!.transformToWebStream()) {
+    hasher.update(chunk);
+  }
+  return hasher.digest("hex");
+}
@@ -0,0 +1,239 @@
+// Reconcile the S3 prefix against brightcoveIds.txt, the checkpoint and
+// video_sources.json
+// Usage: bun src/sync-brightcove-videos-to-s3/reconcile-s3.ts [--fix] [--dry-run] [config flags]
+//
+// Lists every object under the prefix and reports:
+//   - notCheckpointed: <id>.mp4 in S3, but the video isn't uploaded in the checkpoint
+//   - missingInS3:     uploaded according to the checkpoint, but no <id>.mp4 in S3
+//   - unexpected:      objects that don't belong to a video in the ID list
+//   - zeroByte:        empty objects
+// Results go to reconcile_report.json. With --fix, the checkpoint is
+// repaired: MP4s found in S3 are marked "uploaded" (run verify-uploads.ts to
+// check them), missing or empty ones are marked "failed" so the next upload
+// run uploads them again. MP4s of videos marked "failed" (e.g. by
+// verify-uploads.ts --fix) or "no-source" are left alone: the object in S3 is
+// known to be broken or stale. With --dry-run as well, the repairs are only
+// printed.
+
+import { loadConfig } from "../shared/config.ts";
+import { isDryRun } from "../shared/dry-run.ts";
+import { readIdList } from "../shared/id-list.ts";
+import { createLogger, errorFields } from "../shared/logger.ts";
+import { createS3Archive, type S3ObjectEntry } from "../shared/s3.ts";
+import {
+  isUploaded,
+  loadCheckpoint,
+  saveCheckpoint,
+  updateRecord,
+  type UploadRecord,
+} from "./upload-checkpoint.ts";
+import { loadVideoSources } from "./video-sources.ts";
+
+interface ReconcileReport {
+  createdAt: string;
+  objectCount: number;
+  notCheckpointed: S3ObjectEntry[];
+  missingInS3: string[];
+  unexpected: S3ObjectEntry[];
+  zeroByte: S3ObjectEntry[];
+  // In the ID list but not fetched by fetch-video-sources.ts yet
+  notInVideoSources: string[];
+}
+
+// <id>.mp4, <id>.json, <id>.poster.jpg, <id>.track-<trackId>.vtt, ...
+const VIDEO_KEY_PATTERN = /^(\d+)\.(.+)$/;
+
+// Only videos without a record or with an unfinished upload are marked as
+// uploaded when their MP4 is found in S3
+function canMarkUploaded(record: UploadRecord | undefined): boolean {
+  return (
+    record === undefined ||
+    record.state === "pending" ||
+    record.state === "uploading"
+  );
+}
+
+const scriptDir = import.meta.dir;
+
+const { config, args } = await loadConfig({
+  idsFile: `${scriptDir}/brightcoveIds.txt`,
+});
+const fix = args.includes("--fix");
+const dryRun = isDryRun(args);
+const log = createLogger("reconcile-s3", args);
+
+const archive = createS3Archive(config);
+
+async function main() {
+  const ids = new Set(await readIdList(config.idsFile!));
+  const checkpoint = await loadCheckpoint();
+  let videoSourceIds = new Set<string>();
+  try {
+    videoSourceIds = new Set((await loadVideoSources()).map((v) => v.videoId));
+  } catch {
+    log.warn("⚠ video_sources.json not found, skipping that comparison");
+  }
+
+  log.info(`Listing s3://${archive.bucket}/${archive.prefix}...`);
+  const objects = await archive.listObjects();
+  log.info(
+    `Found ${objects.length} objects, ${ids.size} IDs in ${config.idsFile}\n`,
+  );
+
+  const report: ReconcileReport = {
+    createdAt: new Date().toISOString(),
+    objectCount: objects.length,
+    notCheckpointed: [],
+    missingInS3: [],
+    unexpected: [],
+    zeroByte: [],
+    notInVideoSources: [],
+  };
+
+  // videoId -> archived MP4
+  const mp4s = new Map<string, S3ObjectEntry>();
+  for (const object of objects) {
+    if (object.size === 0) {
+      report.zeroByte.push(object);
+    }
+    const match = object.key.slice(archive.prefix.length).match(VIDEO_KEY_PATTERN);
+    if (!match || !ids.has(match[1]!)) {
+      report.unexpected.push(object);
+      continue;
+    }
+    if (match[2] === "mp4") {
+      mp4s.set(match[1]!, object);
+    }
+  }
+
+  for (const [videoId, object] of mp4s) {
+    if (object.size > 0 && !isUploaded(checkpoint.videos[videoId])) {
+      report.notCheckpointed.push(object);
+    }
+  }
+  for (const [videoId, record] of Object.entries(checkpoint.videos)) {
+    if (isUploaded(record) && !mp4s.has(videoId)) {
+      report.missingInS3.push(videoId);
+    }
+  }
+  if (videoSourceIds.size > 0) {
+    report.notInVideoSources = [...ids].filter((id) => !videoSourceIds.has(id));
+  }
+
+  await Bun.write(
+    `${scriptDir}/reconcile_report.json`,
+    JSON.stringify(report, null, 2),
+  );
+
+  log.info(`=== Reconcile Summary ===`);
+  log.info(`In S3 but not checkpointed: ${report.notCheckpointed.length}`);
+  log.info(`Checkpointed but missing in S3: ${report.missingInS3.length}`);
+  log.info(`Unexpected objects (not in ID list): ${report.unexpected.length}`);
+  log.info(`Zero-byte objects: ${report.zeroByte.length}`);
+  if (videoSourceIds.size > 0) {
+    log.info(
+      `IDs missing from video_sources.json: ${report.notInVideoSources.length}`,
+    );
+  }
+  log.info(`\nReport saved to reconcile_report.json`);
+
+  const videoIdOf = (object: S3ObjectEntry) =>
+    object.key.slice(archive.prefix.length).match(VIDEO_KEY_PATTERN)![1]!;
+  const toMarkUploaded = report.notCheckpointed.filter((object) =>
+    canMarkUploaded(checkpoint.videos[videoIdOf(object)]),
+  );
+  const keptFailed = report.notCheckpointed.length - toMarkUploaded.length;
+  if (keptFailed > 0) {
+    log.info(
+      `${keptFailed} MP4s in S3 belong to videos marked failed or no-source and are not marked as uploaded`,
+    );
+  }
+
+  const emptyMp4s = [...mp4s].filter(
+    ([videoId, object]) =>
+      object.size === 0 && isUploaded(checkpoint.videos[videoId]),
+  );
+  const repairs =
+    toMarkUploaded.length + report.missingInS3.length + emptyMp4s.length;
+  if (repairs === 0) return;
+
+  if (!fix) {
+    log.info(`Run with --fix to repair ${repairs} checkpoint entries`);
+    return;
+  }
+
+  for (const object of toMarkUploaded) {
+    const videoId = videoIdOf(object);
+    if (dryRun) {
+      log.info(`  ${videoId}: would mark as uploaded (${object.size} bytes)`, {
+        videoId,
+        phase: "plan",
+        bytes: object.size,
+      });
+      continue;
+    }
+    log.info(`✓ ${videoId}: marked as uploaded (${object.size} bytes)`, {
+      videoId,
+      phase: "reconcile",
+      bytes: object.size,
+    });
+    updateRecord(checkpoint, videoId, "uploaded", {
+      lastError: undefined,
+      errorCategory: undefined,
+      bytes: object.size,
+      etag: object.etag,
+      uploadedAt: object.lastModified,
+    });
+  }
+  for (const videoId of report.missingInS3) {
+    if (dryRun) {
+      log.info(`  ${videoId}: would mark as failed (missing in S3)`, {
+        videoId,
+        phase: "plan",
+      });
+      continue;
+    }
+    log.warn(`✗ ${videoId}: marked as failed (missing in S3)`, {
+      videoId,
+      phase: "reconcile",
+    });
+    updateRecord(checkpoint, videoId, "failed", {
+      lastError: "Reconcile: missing in S3",
+      errorCategory: "verification",
+    });
+  }
+  for (const [videoId] of emptyMp4s) {
+    if (dryRun) {
+      log.info(`  ${videoId}: would mark as failed (zero-byte object)`, {
+        videoId,
+        phase: "plan",
+      });
+      continue;
+    }
+    log.warn(`✗ ${videoId}: marked as failed (zero-byte object)`, {
+      videoId,
+      phase: "reconcile",
+    });
+    updateRecord(checkpoint, videoId, "failed", {
+      lastError: "Reconcile: zero-byte object in S3",
+      errorCategory: "verification",
+    });
+  }
+
+  if (dryRun) {
+    log.info(`\nDry run: ${repairs} checkpoint entries would be repaired`);
+    return;
+  }
+  await saveCheckpoint(checkpoint);
+  log.info(
+    `Repaired ${repairs} checkpoint entries - run verify-uploads.ts to check newly checkpointed MP4s`,
+  );
+}
+
+main().catch((err) => {
+  log.error("\n🔴 MAIN CRASHED:", {
+    ...errorFields(err),
+    stack: err instanceof Error ? err.stack : String(err),
+  });
+  process.exit(1);
+});
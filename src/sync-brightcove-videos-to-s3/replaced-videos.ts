@@ -0,0 +1,41 @@
+// Videos that were replaced with the placeholder
+//
+// Their current Brightcove sources are the placeholder, not the original.
+// Uploading them would overwrite the backup of the original in S3, and
+// verifying the backup against them would report it as mismatched.
+
+import {
+  BrightcoveApiError,
+  type BrightcoveClient,
+} from "../shared/brightcove-client.ts";
+import type { ReplaceCheckpoint } from "../replace-brightcove-videos-with-placeholder/replace-checkpoint.ts";
+import { REPLACED_TAG } from "./archive-assets.ts";
+
+export class ReplacedVideoError extends Error {
+  constructor(readonly videoId: string) {
+    super("Replaced with the placeholder, keeping the existing backup");
+    this.name = "ReplacedVideoError";
+  }
+}
+
+// True if a replace job was submitted for the video (whatever its state) and
+// the video wasn't restored since, or the video is tagged as replaced, e.g.
+// by a run with another checkpoint. A deleted video isn't: it has no
+// sources at all.
+export async function isReplaced(
+  brightcove: BrightcoveClient,
+  videoId: string,
+  replaceCheckpoint: ReplaceCheckpoint,
+): Promise<boolean> {
+  const entry = replaceCheckpoint.jobs[videoId];
+  if (entry && !entry.restoredAt) return true;
+  try {
+    const video = await brightcove.getVideo(videoId);
+    return video.tags?.includes(REPLACED_TAG) ?? false;
+  } catch (error) {
+    if (error instanceof BrightcoveApiError && error.status === 404) {
+      return false;
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,175 @@
+// Retry failed uploads of selected error categories
+// Usage: bun src/sync-brightcove-videos-to-s3/retry-failed.ts [--category <category,...>] [--all] [--force] [--list] [--dry-run] [config flags]
+//
+// Picks the failed and no-source videos from upload_checkpoint.json whose
+// error category is selected (--category, or every category that is retried
+// by default, or --all) and that haven't used up the maximum attempts of
+// their category (--force ignores the limit). The IDs go to retry_ids.txt
+// and upload-to-s3.ts is run for them, with --concurrency capped by the
+// policies of the selected categories. --list only prints the breakdown.
+// Other flags, e.g. --dry-run, are passed on to upload-to-s3.ts.
+
+import { loadConfig } from "../shared/config.ts";
+import { EXIT_USAGE } from "../shared/exit-codes.ts";
+import { readIdList } from "../shared/id-list.ts";
+import { createLogger, errorFields } from "../shared/logger.ts";
+import {
+  categorizeMessage,
+  ERROR_CATEGORIES,
+  RETRY_POLICIES,
+  type ErrorCategory,
+} from "./error-categories.ts";
+import { loadCheckpoint } from "./upload-checkpoint.ts";
+
+// Flags of this script, not passed on to upload-to-s3.ts
+const OWN_FLAGS = ["--all", "--force", "--list"];
+
+const scriptDir = import.meta.dir;
+const retryIdsFile = `${scriptDir}/retry_ids.txt`;
+
+const { config, args } = await loadConfig();
+const all = args.includes("--all");
+const force = args.includes("--force");
+const listOnly = args.includes("--list");
+const log = createLogger("retry-failed", args);
+
+const categoryIndex = args.indexOf("--category");
+const requested =
+  categoryIndex >= 0 ? (args[categoryIndex + 1] ?? "").split(",") : null;
+
+const unknown = requested?.filter(
+  (c) => !ERROR_CATEGORIES.includes(c as ErrorCategory),
+);
+if (unknown && unknown.length > 0) {
+  console.error(
+    `Unknown category "${unknown.join(", ")}" (allowed: ${ERROR_CATEGORIES.join(", ")})`,
+  );
+  console.error(
+    "Usage: bun src/sync-brightcove-videos-to-s3/retry-failed.ts [--category <category,...>] [--all] [--force] [--list] [--dry-run]",
+  );
+  process.exit(EXIT_USAGE);
+}
+
+const isSelected = (category: ErrorCategory) =>
+  all || (requested ? requested.includes(category) : RETRY_POLICIES[category].retryByDefault);
+
+// Arguments for upload-to-s3.ts: everything but this script's own flags.
+// The --ids-file and --concurrency appended at the end take precedence.
+function uploadArgs(): string[] {
+  const argv = process.argv.slice(2);
+  const result: string[] = [];
+  for (let i = 0; i < argv.length; i++) {
+    if (OWN_FLAGS.includes(argv[i]!)) continue;
+    if (argv[i] === "--category") {
+      i++;
+      continue;
+    }
+    result.push(argv[i]!);
+  }
+  return result;
+}
+
+async function main() {
+  const checkpoint = await loadCheckpoint();
+  // With --ids-file, only the listed videos are considered
+  const onlyIds = config.idsFile ? new Set(await readIdList(config.idsFile)) : null;
+
+  const byCategory = new Map<
+    ErrorCategory,
+    { failed: number; selected: string[]; exhausted: number }
+  >();
+  for (const [videoId, record] of Object.entries(checkpoint.videos)) {
+    if (record.state !== "failed" && record.state !== "no-source") continue;
+    if (onlyIds && !onlyIds.has(videoId)) continue;
+
+    const category =
+      record.errorCategory ??
+      (record.state === "no-source"
+        ? "no-source"
+        : categorizeMessage(record.lastError ?? ""));
+    const entry = byCategory.get(category) ?? { failed: 0, selected: [], exhausted: 0 };
+    byCategory.set(category, entry);
+    entry.failed++;
+
+    if (!isSelected(category)) continue;
+    if (!force && record.attempts >= RETRY_POLICIES[category].maxAttempts) {
+      entry.exhausted++;
+      continue;
+    }
+    entry.selected.push(videoId);
+  }
+
+  log.info(`\n=== Failed Uploads by Category ===`);
+  for (const category of ERROR_CATEGORIES) {
+    const entry = byCategory.get(category);
+    if (!entry) continue;
+    const policy = RETRY_POLICIES[category];
+    const maxAttempts = Number.isFinite(policy.maxAttempts)
+      ? `max ${policy.maxAttempts} attempts`
+      : "no attempt limit";
+    log.info(
+      `${isSelected(category) ? "↻" : " "} ${category.padEnd(16)} ${String(entry.failed).padStart(6)} failed, ${entry.selected.length} to retry` +
+        `${entry.exhausted > 0 ? `, ${entry.exhausted} at attempt limit` : ""}` +
+        `  (${policy.label}; ${maxAttempts})`,
+      {
+        category,
+        selected: isSelected(category),
+        failed: entry.failed,
+        toRetry: entry.selected.length,
+        exhausted: entry.exhausted,
+      },
+    );
+  }
+
+  const selected = [...byCategory.entries()].filter(
+    ([, entry]) => entry.selected.length > 0,
+  );
+  const videoIds = selected.flatMap(([, entry]) => entry.selected).sort();
+  if (videoIds.length === 0) {
+    log.info(`\nNothing to retry`);
+    return;
+  }
+
+  // The strictest concurrency limit of the categories being retried
+  const concurrency = Math.min(
+    config.concurrency,
+    ...selected.map(([category]) => RETRY_POLICIES[category].maxConcurrency ?? Infinity),
+  );
+
+  await Bun.write(retryIdsFile, videoIds.join("\n") + "\n");
+  log.info(`\n${videoIds.length} video IDs saved to retry_ids.txt`);
+
+  if (listOnly) {
+    log.info(`Run without --list to retry them`);
+    return;
+  }
+
+  const command = [
+    process.execPath,
+    `${scriptDir}/upload-to-s3.ts`,
+    ...uploadArgs(),
+    "--ids-file",
+    retryIdsFile,
+    "--concurrency",
+    String(concurrency),
+  ];
+  log.info(`Retrying with concurrency ${concurrency}\n`, {
+    phase: "retry",
+    videos: videoIds.length,
+    concurrency,
+  });
+
+  const proc = Bun.spawn(command, { stdio: ["inherit", "inherit", "inherit"] });
+  // Ctrl-C reaches upload-to-s3.ts directly; wait for it to stop gracefully
+  process.on("SIGINT", () => {});
+  process.on("SIGTERM", () => proc.kill("SIGTERM"));
+  process.exitCode = await proc.exited;
+}
+
+main().catch((err) => {
+  log.error("\n🔴 MAIN CRASHED:", {
+    ...errorFields(err),
+    stack: err instanceof Error ? err.stack : String(err),
+  });
+  process.exit(1);
+});
@@ -0,0 +1,105 @@
+// Where to download a video's original from, in order of preference:
+//   mp4             the highest resolution progressive MP4 rendition
+//   digital-master  the original ingested file (CMS /digital_master), for
+//                   videos without MP4 renditions that kept their master
+//   hls-remux       the highest HLS rendition, remuxed into an MP4 by ffmpeg
+// The strategy used is recorded per video in upload_checkpoint.json, along
+// with the container of the uploaded file: a digital master is archived as
+// it was ingested (mov, mxf, ...), not converted to MP4.
+
+import {
+  BrightcoveApiError,
+  selectBestMp4Source,
+  selectHlsSource,
+  type BrightcoveClient,
+} from "../shared/brightcove-client.ts";
+import { extensionOf } from "./archive-assets.ts";
+import { getHighestVariantResolution } from "./hls-remux.ts";
+
+export type DownloadStrategy = "mp4" | "digital-master" | "hls-remux";
+
+export interface ResolvedSource {
+  strategy: DownloadStrategy;
+  // MP4 or master file URL, or the HLS master playlist for hls-remux
+  url: string;
+  resolution: string;
+  size?: number;
+  // File extension of the file that is uploaded: "mp4", except for digital
+  // masters in another container, or "unknown" if the master URL has none
+  container: string;
+}
+
+// Content type of the S3 object per container
+const CONTAINER_CONTENT_TYPES: Record<string, string> = {
+  "3gp": "video/3gpp",
+  avi: "video/x-msvideo",
+  flv: "video/x-flv",
+  m4v: "video/x-m4v",
+  mkv: "video/x-matroska",
+  mov: "video/quicktime",
+  mp4: "video/mp4",
+  mpeg: "video/mpeg",
+  mpg: "video/mpeg",
+  mxf: "application/mxf",
+  ts: "video/mp2t",
+  webm: "video/webm",
+  wmv: "video/x-ms-wmv",
+};
+
+export function containerContentType(container: string): string {
+  return CONTAINER_CONTENT_TYPES[container] ?? "application/octet-stream";
+}
+
+async function getDigitalMasterSource(
+  brightcove: BrightcoveClient,
+  videoId: string,
+): Promise<ResolvedSource | null> {
+  const video = await brightcove.getVideo(videoId);
+  if (!video.has_digital_master) return null;
+
+  try {
+    const master = await brightcove.getDigitalMaster(videoId);
+    if (!master.url) return null;
+    return {
+      strategy: "digital-master",
+      url: master.url,
+      resolution:
+        master.width && master.height
+          ? `${master.width}x${master.height}`
+          : "unknown",
+      size: master.size,
+      container: extensionOf(master.url, "unknown"),
+    };
+  } catch (error) {
+    // Master was deleted or isn't downloadable for this account
+    if (error instanceof BrightcoveApiError && error.status === 404) {
+      return null;
+    }
+    throw error;
+  }
+}
+
+export async function resolveSource(
+  brightcove: BrightcoveClient,
+  videoId: string,
+): Promise<ResolvedSource | null> {
+  const sources = await brightcove.getSources(videoId);
+
+  const mp4 = selectBestMp4Source(sources);
+  if (mp4) return { strategy: "mp4", ...mp4, container: "mp4" };
+
+  const master = await getDigitalMasterSource(brightcove, videoId);
+  if (master) return master;
+
+  const hlsUrl = selectHlsSource(sources);
+  if (hlsUrl) {
+    return {
+      strategy: "hls-remux",
+      url: hlsUrl,
+      resolution: (await getHighestVariantResolution(hlsUrl)) ?? "unknown",
+      container: "mp4",
+    };
+  }
+
+  return null;
+}
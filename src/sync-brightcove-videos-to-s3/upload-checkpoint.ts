@@ -0,0 +1,127 @@
+// upload_checkpoint.json - per-video upload state
+//
+// One record per video, moving through:
+//   pending -> uploading -> uploaded -> verified
+//                       \-> failed / no-source (retried on the next run)
+// A record left in "uploading" by an interrupted run is treated like pending.
+// The old `{ completed: string[] }` format is migrated on load (every listed
+// video becomes "uploaded").
+
+import { rename } from "node:fs/promises";
+import type { ErrorCategory } from "./error-categories.ts";
+import type { MultipartState } from "./multipart-upload.ts";
+import type { DownloadStrategy } from "./source-strategies.ts";
+
+export type UploadState =
+  | "pending"
+  | "no-source"
+  | "uploading"
+  | "uploaded"
+  | "verified"
+  | "failed";
+
+export interface UploadRecord {
+  state: UploadState;
+  attempts: number;
+  lastError?: string;
+  // Category of lastError, decides how it is retried (see error-categories.ts)
+  errorCategory?: ErrorCategory;
+  // Where the uploaded MP4 came from (see source-strategies.ts)
+  strategy?: DownloadStrategy;
+  // Container of the uploaded file, e.g. "mov" for a QuickTime digital
+  // master. The S3 key is <id>.mp4 whatever the container.
+  container?: string;
+  resolution?: string;
+  bytes?: number;
+  etag?: string;
+  sha256?: string;
+  // Open multipart upload of an unfinished attempt, resumed by the next one
+  multipart?: MultipartState;
+  updatedAt: string;
+  uploadedAt?: string;
+  verifiedAt?: string;
+}
+
+export interface UploadCheckpoint {
+  videos: Record<string, UploadRecord>;
+}
+
+export const UPLOAD_CHECKPOINT_FILE = `${import.meta.dir}/upload_checkpoint.json`;
+
+// States in which the MP4 is in S3
+const DONE_STATES: UploadState[] = ["uploaded", "verified"];
+
+export function isUploaded(record: UploadRecord | undefined): boolean {
+  return record !== undefined && DONE_STATES.includes(record.state);
+}
+
+// IDs of all videos whose MP4 is in S3
+export function uploadedIds(checkpoint: UploadCheckpoint): Set<string> {
+  return new Set(
+    Object.entries(checkpoint.videos)
+      .filter(([, record]) => isUploaded(record))
+      .map(([videoId]) => videoId),
+  );
+}
+
+// Move a video to a new state, keeping the fields of its previous record
+export function updateRecord(
+  checkpoint: UploadCheckpoint,
+  videoId: string,
+  state: UploadState,
+  fields: Partial<Omit<UploadRecord, "state" | "updatedAt">> = {},
+): UploadRecord {
+  const previous = checkpoint.videos[videoId];
+  const record: UploadRecord = {
+    attempts: 0,
+    ...previous,
+    ...fields,
+    state,
+    updatedAt: new Date().toISOString(),
+  };
+  checkpoint.videos[videoId] = record;
+  return record;
+}
+
+// Empty if the file doesn't exist yet. A file that can't be parsed is
+// thrown: saving over it would lose every recorded upload.
+export async function loadCheckpoint(
+  path = UPLOAD_CHECKPOINT_FILE,
+): Promise<UploadCheckpoint> {
+  const file = Bun.file(path);
+  if (!(await file.exists())) return { videos: {} };
+  const data = (await file.json()) as {
+    videos?: Record<string, UploadRecord>;
+    completed?: string[];
+  };
+
+  if (data.videos) {
+    return { videos: data.videos };
+  }
+
+  // Legacy format
+  const migratedAt = new Date().toISOString();
+  const videos: Record<string, UploadRecord> = {};
+  for (const videoId of data.completed ?? []) {
+    videos[videoId] = { state: "uploaded", attempts: 1, updatedAt: migratedAt };
+  }
+  return { videos };
+}
+
+// Writes go to a temp file that is renamed over the checkpoint, so a crash
+// never leaves a half-written file. Writes are chained so concurrent workers
+// never interleave.
+let pendingWrite: Promise<unknown> = Promise.resolve();
+
+export function saveCheckpoint(
+  checkpoint: UploadCheckpoint,
+  path = UPLOAD_CHECKPOINT_FILE,
+): Promise<void> {
+  const write = pendingWrite.then(async () => {
+    const tmpPath = `${path}.tmp`;
+    await Bun.write(tmpPath, JSON.stringify(checkpoint, null, 2));
+    await rename(tmpPath, path);
+  });
+  pendingWrite = write.catch(() => {});
+  return write;
+}
@@ -1,134 +1,145 @@
-import { S3Client } from "@aws-sdk/client-s3";
-import { Upload } from "@aws-sdk/lib-storage";
-import { fromIni } from "@aws-sdk/credential-providers";
-import { NodeHttpHandler } from "@smithy/node-http-handler";
-import { Agent } from "node:https";
-
-const S3_BUCKET = "intranet-static-dc-siemens-com-content";
-const S3_PREFIX = "brightcove-cleanup/";
-const AWS_PROFILE = "722716701248";
-const CONCURRENCY = 5;
-
-// Keep-alive agent for connection reuse
-const httpsAgent = new Agent({
-  keepAlive: true,
-  maxSockets: 25,
+import { rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import {
+  BrightcoveApiError,
+  createBrightcoveClient,
+  loadCredentials,
+} from "../shared/brightcove-client.ts";
+import { createAwsSessionGuard } from "../shared/aws-session.ts";
+import { ConfigError, loadConfig } from "../shared/config.ts";
+import { isDryRun, writePlan, type PlanEntry } from "../shared/dry-run.ts";
+import { readIdList } from "../shared/id-list.ts";
+import { EXIT_INTERRUPTED, EXIT_USAGE } from "../shared/exit-codes.ts";
+import { createLogger, errorFields } from "../shared/logger.ts";
+import { createS3Archive } from "../shared/s3.ts";
+import { createWorkerPool, type TaskOutcome } from "../shared/worker-pool.ts";
+import { archiveVideoAssets } from "./archive-assets.ts";
+import {
+  CdnError,
+  classifyError,
+  NoSourceError,
+  RETRY_POLICIES,
+  type ErrorCategory,
+} from "./error-categories.ts";
+import {
+  loadReplaceCheckpoint,
+  type ReplaceCheckpoint,
+} from "../replace-brightcove-videos-with-placeholder/replace-checkpoint.ts";
+import { isFfmpegAvailable, RemuxError, remuxHlsToMp4 } from "./hls-remux.ts";
+import {
+  abortUpload,
+  hashStoredObject,
+  openMultipartUpload,
+  UploadInterruptedError,
+  type MultipartState,
+} from "./multipart-upload.ts";
+import { isReplaced, ReplacedVideoError } from "./replaced-videos.ts";
+import {
+  containerContentType,
+  resolveSource,
+  type DownloadStrategy,
+  type ResolvedSource,
+} from "./source-strategies.ts";
+import {
+  isUploaded,
+  loadCheckpoint,
+  saveCheckpoint,
+  updateRecord,
+  type UploadCheckpoint,
+} from "./upload-checkpoint.ts";
+import { loadVideoSources, type VideoSourceEntry } from "./video-sources.ts";
+
+const { config, args } = await loadConfig();
+const CONCURRENCY = config.concurrency;
+const dryRun = isDryRun(args);
+const log = createLogger("upload-to-s3", args);
+
+const archive = createS3Archive(config);
+
+// Uploads run in a continuous pool that backs off on Brightcove 429s and
+// adapts concurrency to throughput (between 1 and 2x --concurrency)
+const pool = createWorkerPool({
+  concurrency: CONCURRENCY,
+  onConcurrencyChange: (concurrency, reason) =>
+    log.info(`  ⚙ Concurrency now ${concurrency} (${reason})`, {
+      phase: "pool",
+      concurrency,
+    }),
 });
 
-const s3Client = new S3Client({
-  credentials: fromIni({ profile: AWS_PROFILE }),
-  region: "eu-central-1",
-  requestHandler: new NodeHttpHandler({
-    httpsAgent,
-    connectionTimeout: 30000,
-    socketTimeout: 300000,
-  }),
+// Aborted on the second Ctrl-C (or SIGTERM): in-flight uploads stop at the
+// next read and stay open in S3 for the next run to resume
+const shutdown = new AbortController();
+
+// Retries of one video after waiting for an AWS login, in case the new
+// credentials don't help
+const MAX_SESSION_WAITS = 3;
+
+// When the AWS SSO session expires, new uploads pause until `aws sso login`
+// has been run; the failed ones are retried with the new credentials
+const awsSession = createAwsSessionGuard(archive, {
+  signal: shutdown.signal,
+  onExpired: () => {
+    pool.pause();
+    log.warn(
+      `\n🔑 AWS credentials expired - run: aws sso login --profile ${config.awsProfile}\n` +
+        `   New uploads are paused until the login is detected (checked every 30s${process.stdin.isTTY ? ", press Enter to check now" : ""})`,
+      { phase: "aws-session" },
+    );
+  },
+  onResume: (waitedMs) => {
+    pool.resume();
+    log.info(
+      `🔑 Resuming uploads after waiting ${(waitedMs / 1000 / 60).toFixed(1)} minutes for AWS credentials`,
+      { phase: "aws-session", durationMs: waitedMs },
+    );
+  },
 });
 
 const scriptDir = import.meta.dir;
-const secret = await Bun.file(`${scriptDir}/../../secret.json`).json();
-const ACCOUNT_ID = secret.maximum_scope[0].identity["account-id"].toString();
-const CLIENT_ID = secret.client_id;
-const CLIENT_SECRET = secret.client_secret;
-
-let accessToken = "";
-
-// Token refresh with mutex to prevent race conditions
-let tokenRefreshPromise: Promise<string> | null = null;
-
-async function getAccessToken(): Promise<string> {
-  // If already refreshing, wait for that promise
-  if (tokenRefreshPromise) {
-    return tokenRefreshPromise;
-  }
-
-  tokenRefreshPromise = (async () => {
-    const credentials = Buffer.from(`${CLIENT_ID}:${CLIENT_SECRET}`).toString(
-      "base64",
+const brightcove = createBrightcoveClient({
+  ...(await loadCredentials(config.secretFile, config.accountId)),
+  onTokenRefresh: (expiresIn) =>
+    log.info(`Brightcove token refreshed (expires in ${expiresIn}s)`, {
+      phase: "auth",
+      expiresIn,
+    }),
+  onRateLimit: (retryAfterMs) => {
+    log.warn(
+      `  ⏸ Brightcove rate limit, pausing ${(retryAfterMs / 1000).toFixed(0)}s`,
+      { phase: "rate-limit", durationMs: retryAfterMs },
     );
-    const response = await fetch(
-      "https://oauth.brightcove.com/v4/access_token",
-      {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/x-www-form-urlencoded",
-          Authorization: `Basic ${credentials}`,
-        },
-        body: "grant_type=client_credentials",
-      },
-    );
-    if (!response.ok) {
-      throw new Error(`Failed to get access token: ${response.status}`);
-    }
-    const data = (await response.json()) as {
-      access_token: string;
-      expires_in: number;
-    };
-    console.log(`Brightcove token refreshed (expires in ${data.expires_in}s)`);
-    return data.access_token;
-  })();
-
-  try {
-    const token = await tokenRefreshPromise;
-    return token;
-  } finally {
-    tokenRefreshPromise = null;
-  }
-}
+    pool.throttle(retryAfterMs, "rate limited");
+  },
+});
 
 // Helper to delay execution
 const delay = (ms: number) => new Promise((r) => setTimeout(r, ms));
 
-interface VideoSource {
-  src: string;
-  container?: string;
-  width?: number;
-  height?: number;
-}
-
-// Fetch fresh video URL from Brightcove (with token refresh and retry)
-async function getFreshVideoUrl(
+// Resolve a fresh source from Brightcove (the client handles token refresh)
+async function getFreshSource(
   videoId: string,
   retries = 3,
-): Promise<{ url: string; resolution: string } | null> {
-  const apiUrl = `https://cms.api.brightcove.com/v1/accounts/${ACCOUNT_ID}/videos/${videoId}/sources`;
-
+): Promise<ResolvedSource | null> {
   for (let attempt = 0; attempt < retries; attempt++) {
     try {
-      let response = await fetch(apiUrl, {
-        headers: { Authorization: `Bearer ${accessToken}` },
-      });
-
-      if (response.status === 401) {
-        accessToken = await getAccessToken();
-        response = await fetch(apiUrl, {
-          headers: { Authorization: `Bearer ${accessToken}` },
-        });
-      }
-
-      if (!response.ok) {
+      return await resolveSource(brightcove, videoId);
+    } catch (error) {
+      // Client errors (video not found, no access) mean there is no source.
+      // Rate limits that outlasted the client's retries and 5xx are retried.
+      if (
+        error instanceof BrightcoveApiError &&
+        error.status < 500 &&
+        error.status !== 429
+      ) {
         return null;
       }
-
-      const sources = (await response.json()) as VideoSource[];
-      const mp4Sources = sources.filter(
-        (s) => s.container === "MP4" && s.src.startsWith("https://"),
-      );
-
-      if (mp4Sources.length === 0) return null;
-
-      mp4Sources.sort((a, b) => (b.height || 0) - (a.height || 0));
-      const best = mp4Sources[0]!;
-      return {
-        url: best.src,
-        resolution: `${best.width}x${best.height}`,
-      };
-    } catch (error) {
-      // Connection error - retry with backoff
+      // Connection or server error - retry with backoff
       if (attempt < retries - 1) {
         const waitTime = (attempt + 1) * 2000; // 2s, 4s, 6s
-        console.log(
-          `  ⚠ Connection error for ${videoId}, retrying in ${waitTime / 1000}s...`,
+        log.warn(
+          `  ⚠ Request failed for ${videoId}, retrying in ${waitTime / 1000}s...`,
+          { videoId, phase: "resolve", attempt: attempt + 1, ...errorFields(error) },
         );
         await delay(waitTime);
         continue;
@@ -139,162 +150,429 @@ async function getFreshVideoUrl(
   return null;
 }
 
-interface VideoSourceEntry {
-  videoId: string;
-  url: string | null;
-  resolution: string;
+// Byte size of the source, from Brightcove or else the CDN content-length.
+// Unknown for HLS, where the size is only known after remuxing.
+async function getSourceSize(
+  source: ResolvedSource,
+): Promise<number | undefined> {
+  if (source.size !== undefined) return source.size;
+  if (source.strategy === "hls-remux") return undefined;
+  const response = await fetch(source.url, { method: "HEAD" });
+  const contentLength = response.headers.get("content-length");
+  return response.ok && contentLength ? parseInt(contentLength) : undefined;
 }
 
-async function loadCheckpoint(): Promise<Set<string>> {
-  try {
-    const data = await Bun.file(`${scriptDir}/upload_checkpoint.json`).json();
-    return new Set(data.completed as string[]);
-  } catch {
-    return new Set();
+// Resolve sources for all pending videos and write upload_plan.json
+// instead of uploading
+async function planUploads(
+  videoSources: VideoSourceEntry[],
+  checkpoint: UploadCheckpoint,
+  replaceCheckpoint: ReplaceCheckpoint,
+): Promise<void> {
+  const plan: PlanEntry[] = [];
+  const pending: string[] = [];
+
+  for (const { videoId } of videoSources) {
+    if (isUploaded(checkpoint.videos[videoId])) {
+      plan.push({ videoId, action: "skip", detail: "already uploaded" });
+    } else {
+      pending.push(videoId);
+    }
   }
-}
 
-// Mutex for checkpoint file writes
-let checkpointLock = false;
-async function saveCheckpoint(completed: Set<string>): Promise<void> {
-  while (checkpointLock) {
-    await new Promise((r) => setTimeout(r, 10));
+  log.info(`Resolving sources for ${pending.length} videos...`);
+  let next = 0;
+  async function worker() {
+    while (next < pending.length) {
+      const videoId = pending[next++]!;
+      try {
+        if (await isReplaced(brightcove, videoId, replaceCheckpoint)) {
+          plan.push({ videoId, action: "skip", detail: "replaced with the placeholder" });
+          continue;
+        }
+        const source = await getFreshSource(videoId);
+        if (!source) {
+          plan.push({ videoId, action: "skip", detail: "No source available" });
+          continue;
+        }
+        if (source.strategy === "hls-remux" && !isFfmpegAvailable()) {
+          plan.push({ videoId, action: "skip", detail: "HLS only, ffmpeg not found" });
+          continue;
+        }
+        const bytes = await getSourceSize(source);
+        plan.push({
+          videoId,
+          action: "upload",
+          bytes,
+          detail: `${source.strategy}, ${source.resolution}${bytes === undefined ? ", size unknown" : ""}`,
+        });
+      } catch (error) {
+        const errorMsg = error instanceof Error ? error.message : String(error);
+        plan.push({ videoId, action: "error", detail: errorMsg });
+      }
+    }
   }
-  checkpointLock = true;
+  await Promise.all(Array.from({ length: CONCURRENCY }, worker));
+
+  await writePlan(`${scriptDir}/upload_plan.json`, plan, log);
+}
+
+interface UploadResult {
+  success: boolean;
+  sizeMB?: string;
+  bytes?: number;
+  etag?: string;
+  sha256?: string;
+  error?: string;
+  errorClass?: string;
+  category?: ErrorCategory;
+  interrupted?: boolean;
+}
+
+// Pass a stream through while computing its SHA-256
+function hashStream(body: ReadableStream<Uint8Array>) {
+  const hasher = new Bun.CryptoHasher("sha256");
+  return {
+    body: body.pipeThrough(
+      new TransformStream<Uint8Array, Uint8Array>({
+        transform(chunk, controller) {
+          hasher.update(chunk);
+          controller.enqueue(chunk);
+        },
+      }),
+    ),
+    digest: () => hasher.digest("hex"),
+  };
+}
+
+// Store the checksum and archive metadata once the MP4 is complete in S3
+async function finishUpload(videoId: string, sha256: string): Promise<void> {
+  await archive.storeChecksum(archive.videoKey(videoId), sha256);
+
+  // The MP4 is safe at this point; missing metadata can be archived later
   try {
-    await Bun.write(
-      `${scriptDir}/upload_checkpoint.json`,
-      JSON.stringify({ completed: Array.from(completed) }, null, 2),
+    await archiveVideoAssets(archive, brightcove, videoId);
+  } catch (error) {
+    const errorMsg = error instanceof Error ? error.message : String(error);
+    log.warn(
+      `  ⚠ ${videoId}: metadata archive failed (${errorMsg}), run archive-metadata.ts`,
+      { videoId, phase: "metadata", ...errorFields(error) },
     );
-  } finally {
-    checkpointLock = false;
   }
 }
 
+function uploadFailure(error: unknown): UploadResult {
+  const { error: errorMsg, errorClass } = errorFields(error);
+  if (error instanceof UploadInterruptedError || shutdown.signal.aborted) {
+    return { success: false, error: errorMsg, errorClass, interrupted: true };
+  }
+  return {
+    success: false,
+    error: errorMsg,
+    errorClass,
+    category: classifyError(error),
+  };
+}
+
+// Stream an MP4 or digital master from its URL straight into S3. The object
+// gets the content type of the source's container.
 async function uploadVideoToS3(
   videoId: string,
-  url: string,
-): Promise<{
-  success: boolean;
-  sizeMB?: string;
-  error?: string;
-  needsRetry?: boolean;
-}> {
+  source: ResolvedSource,
+  resume: MultipartState | undefined,
+  // Called with the multipart upload before any data is sent, so its ID can
+  // be checkpointed for the next attempt to resume from
+  onStart: (state: MultipartState) => Promise<void>,
+): Promise<UploadResult> {
+  const key = archive.videoKey(videoId);
   try {
-    const response = await fetch(url);
+    const contentType = containerContentType(source.container);
+    let multipart = await openMultipartUpload(archive, key, {
+      contentType,
+      totalBytes: source.size,
+      resume,
+    });
+    let response = await fetch(
+      source.url,
+      multipart.offset > 0
+        ? { headers: { Range: `bytes=${multipart.offset}-` } }
+        : undefined,
+    );
+
+    // The CDN ignored or rejected the Range request: start over
+    if (
+      multipart.offset > 0 &&
+      (response.status === 200 || response.status === 416)
+    ) {
+      await multipart.abort();
+      multipart = await openMultipartUpload(archive, key, {
+        contentType,
+        totalBytes: source.size,
+      });
+      if (response.status === 416) {
+        response = await fetch(source.url);
+      }
+    }
+    await onStart(multipart.state);
 
     if (!response.ok) {
       const body = await response.text();
-      console.log(`  [${videoId}] CDN error body: ${body.substring(0, 200)}`);
-      // If 401/403, signal that we need a fresh URL
-      if (response.status === 401 || response.status === 403) {
-        return {
-          success: false,
-          error: body || `CDN URL expired: ${response.status}`,
-          needsRetry: true,
-        };
-      }
-      return {
-        success: false,
-        error: `Failed to fetch: ${response.status} ${response.statusText}`,
-      };
+      log.warn(`  [${videoId}] CDN error body: ${body.substring(0, 200)}`, {
+        videoId,
+        phase: "download",
+        status: response.status,
+      });
+      // 401/403 mean the URL expired and is retried with a fresh one
+      return uploadFailure(new CdnError(response.status, body));
+    }
+
+    if (multipart.offset > 0) {
+      log.info(
+        `  ↻ ${videoId}: resuming upload at ${(multipart.offset / 1024 / 1024).toFixed(0)} MB`,
+        { videoId, phase: "upload", offset: multipart.offset },
+      );
     }
 
     const contentLength = response.headers.get("content-length");
-    const sizeMB = contentLength
-      ? (parseInt(contentLength) / 1024 / 1024).toFixed(2)
-      : "unknown";
-
-    const upload = new Upload({
-      client: s3Client,
-      params: {
-        Bucket: S3_BUCKET,
-        Key: `${S3_PREFIX}${videoId}.mp4`,
-        Body: response.body as ReadableStream,
-        ContentType: "video/mp4",
-      },
+    const expectedBytes = contentLength
+      ? multipart.offset + parseInt(contentLength)
+      : undefined;
+    const sizeMB =
+      expectedBytes !== undefined
+        ? (expectedBytes / 1024 / 1024).toFixed(2)
+        : "unknown";
+
+    // A connection dropped by the CDN can end the stream early without
+    // error; the upload is then left open to resume from (TruncatedDownloadError)
+    const hashed = hashStream(response.body!);
+    const { etag, bytes } = await multipart.upload(hashed.body, {
+      expectedBytes,
+      signal: shutdown.signal,
     });
 
-    await upload.done();
-    return { success: true, sizeMB };
+    // The start of a resumed upload was streamed by an earlier attempt
+    const sha256 =
+      multipart.offset === 0
+        ? hashed.digest()
+        : await hashStoredObject(archive, key);
+    await finishUpload(videoId, sha256);
+    return { success: true, sizeMB, bytes, etag, sha256 };
   } catch (error) {
-    const errorMsg = error instanceof Error ? error.message : String(error);
-    // Check if this is a token/URL expiration error that should be retried
-    if (errorMsg.includes("expired") || errorMsg.includes("Unauthorized")) {
-      return {
-        success: false,
-        error: errorMsg,
-        needsRetry: true,
-      };
+    return uploadFailure(error);
+  }
+}
+
+// Remux the HLS stream into a temporary MP4, then upload that file. Not
+// resumable: two remuxes of the same stream aren't guaranteed to be
+// byte-identical, so an unfinished upload from an earlier attempt is dropped.
+async function uploadRemuxedVideo(
+  videoId: string,
+  source: ResolvedSource,
+  resume: MultipartState | undefined,
+  onStart: (state: MultipartState) => Promise<void>,
+): Promise<UploadResult> {
+  if (!isFfmpegAvailable()) {
+    return uploadFailure(new RemuxError("HLS only, ffmpeg not found"));
+  }
+
+  const key = archive.videoKey(videoId);
+  const tmpPath = `${tmpdir()}/brightcove-${videoId}.mp4`;
+  try {
+    if (resume) {
+      await abortUpload(archive, key, resume.uploadId);
     }
+    await remuxHlsToMp4(source.url, tmpPath, shutdown.signal);
+
+    const file = Bun.file(tmpPath);
+    const multipart = await openMultipartUpload(archive, key, {
+      contentType: "video/mp4",
+      totalBytes: file.size,
+    });
+    await onStart(multipart.state);
+
+    const hashed = hashStream(file.stream());
+    const { etag, bytes } = await multipart.upload(hashed.body, {
+      expectedBytes: file.size,
+      signal: shutdown.signal,
+    });
+    const sha256 = hashed.digest();
+    await finishUpload(videoId, sha256);
     return {
-      success: false,
-      error: errorMsg,
+      success: true,
+      sizeMB: (bytes / 1024 / 1024).toFixed(2),
+      bytes,
+      etag,
+      sha256,
     };
+  } catch (error) {
+    return uploadFailure(error);
+  } finally {
+    await rm(tmpPath, { force: true });
   }
 }
 
 // Main execution
 async function main() {
-  console.log("Initializing...");
-  accessToken = await getAccessToken();
+  log.info("Initializing...");
+  await brightcove.getAccessToken();
 
-  console.log("Loading video sources...");
-  const videoSources: VideoSourceEntry[] =
-    await Bun.file(`${scriptDir}/video_sources.json`).json();
+  log.info("Loading video sources...");
+  let videoSources = await loadVideoSources();
 
-  // Filter to only videos with valid URLs (we'll fetch fresh URLs anyway)
-  const videosToUpload = videoSources.filter((v) => v.url !== null);
-  console.log(
-    `Found ${videosToUpload.length} videos with URLs (out of ${videoSources.length} total)\n`,
+  // --ids-file limits the run to the listed videos (used by retry-failed.ts)
+  if (config.idsFile) {
+    const ids = new Set(await readIdList(config.idsFile));
+    videoSources = videoSources.filter((v) => ids.has(v.videoId));
+    log.info(`Limited to the ${ids.size} IDs in ${config.idsFile}`);
+  }
+
+  // Videos without an MP4 URL are attempted too: fresh sources are resolved
+  // for every video, falling back to the digital master or HLS
+  const withoutMp4 = videoSources.filter((v) => v.url === null).length;
+  log.info(
+    `Found ${videoSources.length} videos (${withoutMp4} without an MP4 source in video_sources.json)\n`,
   );
+  if (!isFfmpegAvailable()) {
+    log.warn(`⚠ ffmpeg not found, videos that only have HLS sources will fail\n`);
+  }
 
   // Load checkpoint for resume capability
-  const completed = await loadCheckpoint();
-  console.log(`Already uploaded: ${completed.size} videos`);
+  const checkpoint = await loadCheckpoint();
+  const isDone = (videoId: string) => isUploaded(checkpoint.videos[videoId]);
+  const uploadedBefore = videoSources.filter((v) => isDone(v.videoId)).length;
+  log.info(`Already uploaded: ${uploadedBefore} videos`);
+
+  // Replaced videos are refused before anything is streamed, see
+  // replaced-videos.ts
+  const replaceCheckpoint = await loadReplaceCheckpoint();
+
+  if (dryRun) {
+    await planUploads(videoSources, checkpoint, replaceCheckpoint);
+    return;
+  }
 
   // Filter out already completed
-  const pending = videosToUpload.filter((v) => !completed.has(v.videoId));
-  console.log(`Remaining to upload: ${pending.length} videos`);
-  console.log(`Concurrency: ${CONCURRENCY} parallel uploads`);
-  console.log(`Mode: Fetching fresh URLs on-demand\n`);
+  const pending = videoSources.filter((v) => !isDone(v.videoId));
+  log.info(`Remaining to upload: ${pending.length} videos`);
+  log.info(`Concurrency: ${CONCURRENCY} parallel uploads (adaptive)`);
+  log.info(`Mode: Fetching fresh URLs on-demand\n`);
 
   let successCount = 0;
   let errorCount = 0;
-  const errors: { videoId: string; error: string }[] = [];
   const startTime = Date.now();
 
-  // Helper function to upload a single video with retry on expired URL
+  // Upload a single video, retrying with a fresh URL if the error category
+  // allows it (see error-categories.ts)
   async function uploadWithRetry(
     videoId: string,
     maxRetries = 2,
   ): Promise<{
     videoId: string;
     resolution: string;
-    result: { success: boolean; sizeMB?: string; error?: string };
+    strategy?: DownloadStrategy;
+    container?: string;
+    result: UploadResult;
   }> {
+    // Brightcove only has the placeholder left: uploading it would
+    // overwrite the backup of the original
+    if (await isReplaced(brightcove, videoId, replaceCheckpoint)) {
+      return {
+        videoId,
+        resolution: "N/A",
+        result: uploadFailure(new ReplacedVideoError(videoId)),
+      };
+    }
+
+    let sessionWaits = 0;
     for (let attempt = 0; attempt <= maxRetries; attempt++) {
-      // Fetch fresh URL from Brightcove API
-      const freshData = await getFreshVideoUrl(videoId);
+      if (shutdown.signal.aborted) {
+        return {
+          videoId,
+          resolution: "N/A",
+          result: { success: false, error: "Upload interrupted", interrupted: true },
+        };
+      }
+
+      // Fetch fresh source from Brightcove API
+      const freshData = await getFreshSource(videoId);
       if (!freshData) {
         return {
           videoId,
           resolution: "N/A",
-          result: { success: false, error: "No MP4 source available" },
+          result: uploadFailure(new NoSourceError()),
         };
       }
 
-      const result = await uploadVideoToS3(videoId, freshData.url);
+      // An unfinished upload of a different kind of source can't be continued
+      const record = checkpoint.videos[videoId];
+      let resume = record?.multipart;
+      if (resume && record?.strategy !== freshData.strategy) {
+        await abortUpload(archive, archive.videoKey(videoId), resume.uploadId);
+        resume = undefined;
+      }
+
+      const upload =
+        freshData.strategy === "hls-remux" ? uploadRemuxedVideo : uploadVideoToS3;
+      const result = await upload(videoId, freshData, resume, (multipart) => {
+        updateRecord(checkpoint, videoId, "uploading", {
+          multipart,
+          strategy: freshData.strategy,
+        });
+        return saveCheckpoint(checkpoint);
+      });
 
-      // If URL expired and we have retries left, try again with fresh URL
-      if (result.needsRetry && attempt < maxRetries) {
-        console.log(
-          `  ↻ ${videoId}: URL expired, retrying (${attempt + 1}/${maxRetries})...`,
+      // Not the video's fault: wait for new credentials and try again
+      // without counting it as a retry
+      if (
+        result.category === "s3-auth-expired" &&
+        sessionWaits < MAX_SESSION_WAITS
+      ) {
+        sessionWaits++;
+        try {
+          await awsSession.waitForLogin();
+        } catch (error) {
+          // The AWS profile doesn't exist: every other upload would fail
+          // the same way
+          if (error instanceof ConfigError) {
+            log.error(`❌ Config error: ${error.message}`, {
+              videoId,
+              phase: "aws-session",
+              ...errorFields(error),
+            });
+            process.exit(EXIT_USAGE);
+          }
+          // Interrupted by Ctrl-C, or the credentials check failed otherwise
+          return { videoId, resolution: "N/A", result: uploadFailure(error) };
+        }
+        attempt--;
+        continue;
+      }
+
+      const policy = result.category && RETRY_POLICIES[result.category];
+      if (policy && policy.retryInRun && attempt < maxRetries) {
+        const waitTime = policy.retryDelayMs * (attempt + 1);
+        log.warn(
+          `  ↻ ${videoId}: ${policy.label}, retrying${waitTime > 0 ? ` in ${waitTime / 1000}s` : ""} (${attempt + 1}/${maxRetries})...`,
+          {
+            videoId,
+            phase: "retry",
+            attempt: attempt + 1,
+            error: result.error,
+            errorClass: result.errorClass,
+            category: result.category,
+          },
         );
+        await delay(waitTime);
         continue;
       }
 
-      return { videoId, resolution: freshData.resolution, result };
+      return {
+        videoId,
+        resolution: freshData.resolution,
+        strategy: freshData.strategy,
+        container: freshData.container,
+        result,
+      };
     }
 
     // Should never reach here, but just in case
@@ -305,66 +583,228 @@ async function main() {
     };
   }
 
-  // Process in batches
-  for (let i = 0; i < pending.length; i += CONCURRENCY) {
-    const batch = pending.slice(i, i + CONCURRENCY);
+  let finishedCount = 0;
+  let interruptedCount = 0;
+
+  // First Ctrl-C: start no new uploads and let the running ones finish.
+  // Second Ctrl-C or SIGTERM: interrupt the running ones too, keeping their
+  // multipart uploads for the next run. Third Ctrl-C: exit immediately.
+  let signalCount = 0;
+  function onSignal(signal: NodeJS.Signals) {
+    signalCount++;
+    if (signalCount === 1 && signal === "SIGINT") {
+      log.warn(
+        `\n⏹ Stopping after ${pool.active} uploads in flight finish (Ctrl-C again to interrupt them)`,
+        { phase: "shutdown", signal },
+      );
+      pool.stop();
+    } else if (!shutdown.signal.aborted) {
+      log.warn(`\n⏹ Interrupting uploads, progress is kept for the next run`, {
+        phase: "shutdown",
+        signal,
+      });
+      pool.stop();
+      shutdown.abort();
+    } else {
+      process.exit(EXIT_INTERRUPTED);
+    }
+  }
+  process.on("SIGINT", onSignal);
+  process.on("SIGTERM", onSignal);
 
-    const results = await Promise.all(
-      batch.map((video) => uploadWithRetry(video.videoId)),
-    );
+  async function recordError(
+    videoId: string,
+    error: string,
+    category: ErrorCategory,
+    fields: { errorClass?: string; attempt?: number; durationMs?: number },
+  ) {
+    errorCount++;
+    const state = category === "no-source" ? "no-source" : "failed";
+    updateRecord(checkpoint, videoId, state, {
+      lastError: error,
+      errorCategory: category,
+    });
+    await saveCheckpoint(checkpoint);
+    log.error(`✗ ${videoId}: ${error}`, {
+      videoId,
+      phase: "upload",
+      state,
+      error,
+      category,
+      ...fields,
+    });
+  }
 
-    // Process results
-    for (const { videoId, resolution, result } of results) {
-      if (result.success) {
-        successCount++;
-        completed.add(videoId);
-        console.log(`✓ ${videoId} (${resolution}, ${result.sizeMB} MB)`);
-      } else {
-        errorCount++;
-        errors.push({ videoId, error: result.error! });
-        console.log(`✗ ${videoId}: ${result.error}`);
-      }
+  // Upload one video and record the outcome in the checkpoint
+  async function uploadTask(videoId: string): Promise<TaskOutcome> {
+    const videoStart = Date.now();
+    const attempt = (checkpoint.videos[videoId]?.attempts ?? 0) + 1;
+    updateRecord(checkpoint, videoId, "uploading", { attempts: attempt });
+    await saveCheckpoint(checkpoint);
+
+    const { resolution, strategy, container, result } =
+      await uploadWithRetry(videoId);
+    finishedCount++;
+    const durationMs = Date.now() - videoStart;
+
+    if (result.success) {
+      successCount++;
+      updateRecord(checkpoint, videoId, "uploaded", {
+        lastError: undefined,
+        errorCategory: undefined,
+        multipart: undefined,
+        strategy,
+        container,
+        resolution,
+        bytes: result.bytes,
+        etag: result.etag,
+        sha256: result.sha256,
+        uploadedAt: new Date().toISOString(),
+      });
+      log.info(
+        `✓ ${videoId} (${resolution}, ${result.sizeMB} MB${strategy !== "mp4" ? `, ${strategy}` : ""}${container !== "mp4" ? `, ${container}` : ""})`,
+        {
+          videoId,
+          phase: "upload",
+          strategy,
+          container,
+          resolution,
+          bytes: result.bytes,
+          attempt,
+          durationMs,
+        },
+      );
+      await saveCheckpoint(checkpoint);
+    } else if (result.interrupted) {
+      interruptedCount++;
+      updateRecord(checkpoint, videoId, "pending", {
+        lastError: "Interrupted",
+      });
+      await saveCheckpoint(checkpoint);
+      log.warn(`⏸ ${videoId}: interrupted, will resume on the next run`, {
+        videoId,
+        phase: "upload",
+        attempt,
+        durationMs,
+      });
+    } else {
+      await recordError(videoId, result.error!, result.category ?? "other", {
+        errorClass: result.errorClass,
+        attempt,
+        durationMs,
+      });
     }
 
-    await saveCheckpoint(completed);
+    if (finishedCount % 10 === 0) {
+      const minutes = (Date.now() - startTime) / 1000 / 60;
+      log.info(
+        `--- Progress: ${uploadedBefore + successCount} done, ${pending.length - finishedCount} remaining, ${(successCount / minutes).toFixed(1)} videos/min, ${pool.active} in flight (limit ${pool.concurrency}) ---\n`,
+        {
+          phase: "progress",
+          done: uploadedBefore + successCount,
+          remaining: pending.length - finishedCount,
+          active: pool.active,
+        },
+      );
+    }
 
-    const elapsed = ((Date.now() - startTime) / 1000).toFixed(0);
-    const total = completed.size;
-    const remaining = pending.length - (i + batch.length);
-    const rate = ((successCount / (elapsed as unknown as number)) * 60).toFixed(
-      1,
-    );
-    console.log(
-      `--- Batch complete: ${total} done, ${remaining} remaining, ${rate} videos/min ---\n`,
-    );
+    return { ok: result.success, units: result.bytes };
   }
 
-  console.log(`\n=== Upload Complete ===`);
-  console.log(`Total uploaded: ${completed.size}`);
-  console.log(`This session: ${successCount} success, ${errorCount} errors`);
-  console.log(
+  // An upload that threw instead of returning a failed result. Awaited
+  // inside the pool task, so a failing checkpoint write can't become an
+  // unhandled rejection that ends the run.
+  async function recordTaskError(videoId: string, error: unknown) {
+    finishedCount++;
+    const { error: errorMsg, errorClass } = errorFields(error);
+    const category = classifyError(error);
+    // Expired credentials don't count as a failure of the video
+    if (category === "s3-auth-expired") {
+      interruptedCount++;
+      updateRecord(checkpoint, videoId, "pending", { lastError: errorMsg });
+      await saveCheckpoint(checkpoint);
+      log.warn(`⏸ ${videoId}: AWS credentials expired, will retry on the next run`, {
+        videoId,
+        phase: "upload",
+        error: errorMsg,
+        errorClass,
+        category,
+      });
+      return;
+    }
+    await recordError(videoId, errorMsg, category, { errorClass });
+  }
+
+  // Each finished upload immediately frees its slot for the next video
+  await pool.run(
+    pending.map((v) => v.videoId),
+    async (videoId) => {
+      try {
+        return await uploadTask(videoId);
+      } catch (error) {
+        await recordTaskError(videoId, error);
+        return { ok: false };
+      }
+    },
+    // Only reached if recording the error failed too
+    (videoId, error) => {
+      log.error(`✗ ${videoId}: failed to record the error in the checkpoint`, {
+        videoId,
+        phase: "checkpoint",
+        ...errorFields(error),
+      });
+    },
+  );
+
+  process.off("SIGINT", onSignal);
+  process.off("SIGTERM", onSignal);
+
+  log.info(`\n=== ${signalCount > 0 ? "Upload Stopped" : "Upload Complete"} ===`, {
+    phase: "summary",
+    uploaded: successCount,
+    errors: errorCount,
+    interrupted: interruptedCount,
+    durationMs: Date.now() - startTime,
+  });
+  log.info(`Total uploaded: ${uploadedBefore + successCount}`);
+  log.info(`This session: ${successCount} success, ${errorCount} errors`);
+  log.info(
     `Time: ${((Date.now() - startTime) / 1000 / 60).toFixed(1)} minutes`,
   );
 
-  if (errors.length > 0) {
-    await Bun.write(`${scriptDir}/upload_errors.json`, JSON.stringify(errors, null, 2));
-    console.log(`\nErrors saved to upload_errors.json`);
+  if (signalCount > 0) {
+    log.warn(
+      `Stopped early: ${interruptedCount} uploads interrupted - re-run to continue`,
+    );
+    process.exitCode = EXIT_INTERRUPTED;
+  }
+
+  if (errorCount > 0) {
+    log.info(
+      `\nErrors recorded in upload_checkpoint.json - run extract-missing.ts for the list`,
+    );
   }
 
-  console.log(`\nFiles uploaded to: s3://${S3_BUCKET}/${S3_PREFIX}`);
+  log.info(`\nFiles uploaded to: s3://${archive.bucket}/${archive.prefix}`);
 }
 
 process.on("uncaughtException", (err) => {
-  console.error("\n🔴 UNCAUGHT EXCEPTION:", err);
+  log.error("\n🔴 UNCAUGHT EXCEPTION:", { ...errorFields(err), stack: err.stack });
   process.exit(1);
 });
 
-process.on("unhandledRejection", (reason, promise) => {
-  console.error("\n🔴 UNHANDLED REJECTION at:", promise, "reason:", reason);
+process.on("unhandledRejection", (reason) => {
+  log.error("\n🔴 UNHANDLED REJECTION:", {
+    ...errorFields(reason),
+    stack: reason instanceof Error ? reason.stack : String(reason),
+  });
   process.exit(1);
 });
 
 main().catch((err) => {
-  console.error("\n🔴 MAIN CRASHED:", err);
+  log.error("\n🔴 MAIN CRASHED:", {
+    ...errorFields(err),
+    stack: err instanceof Error ? err.stack : String(err),
+  });
   process.exit(1);
 });
@@ -0,0 +1,290 @@
+// Verify uploaded S3 objects against their Brightcove sources
+// Usage: bun src/sync-brightcove-videos-to-s3/verify-uploads.ts [--fix] [--dry-run] [config flags]
+//
+// For every uploaded video in upload_checkpoint.json: checks the S3 object
+// exists, compares its ContentLength with the size of the Brightcove source
+// it was uploaded from (the MP4 rendition, or the digital master in its own
+// container for the digital-master strategy) and reads the SHA-256 tag written during upload. Results go to
+// verify_report.json and videos that pass are marked "verified" in the
+// checkpoint. With --fix, videos that are missing, truncated or mismatched
+// are marked "failed" so the next upload run re-uploads them. With
+// --dry-run the checkpoint is not changed.
+//
+// Videos that were replaced with the placeholder (in replace_checkpoint.json
+// or tagged "placeholder-replaced") are skipped: their Brightcove source is
+// the placeholder, so the backup of the original would never match it.
+
+import {
+  BrightcoveApiError,
+  createBrightcoveClient,
+  loadCredentials,
+  selectBestMp4Source,
+} from "../shared/brightcove-client.ts";
+import { loadConfig } from "../shared/config.ts";
+import { isDryRun } from "../shared/dry-run.ts";
+import { createLogger, errorFields } from "../shared/logger.ts";
+import { createS3Archive } from "../shared/s3.ts";
+import {
+  loadReplaceCheckpoint,
+  type ReplaceCheckpoint,
+} from "../replace-brightcove-videos-with-placeholder/replace-checkpoint.ts";
+import { isReplaced } from "./replaced-videos.ts";
+import {
+  isUploaded,
+  loadCheckpoint,
+  saveCheckpoint,
+  updateRecord,
+  uploadedIds,
+  type UploadRecord,
+} from "./upload-checkpoint.ts";
+
+type VerifyStatus =
+  | "ok"
+  | "missing"
+  | "truncated"
+  | "mismatched"
+  | "unverified"
+  | "replaced"
+  | "error";
+
+interface VerifyResult {
+  videoId: string;
+  status: VerifyStatus;
+  s3Size?: number;
+  expectedSize?: number;
+  sha256?: string;
+  detail?: string;
+}
+
+// Statuses that mean the object has to be uploaded again
+const BROKEN: VerifyStatus[] = ["missing", "truncated", "mismatched"];
+
+const { config, args } = await loadConfig({ concurrency: 10 });
+const CONCURRENCY = config.concurrency;
+const fix = args.includes("--fix");
+const dryRun = isDryRun(args);
+const log = createLogger("verify-uploads", args);
+
+const scriptDir = import.meta.dir;
+const archive = createS3Archive(config);
+const brightcove = createBrightcoveClient({
+  ...(await loadCredentials(config.secretFile, config.accountId)),
+  onTokenRefresh: (expiresIn) =>
+    log.info(`Brightcove token refreshed (expires in ${expiresIn}s)`, {
+      phase: "auth",
+      expiresIn,
+    }),
+});
+
+// Size reported by Brightcove, or else the CDN content-length
+async function sourceSize(
+  url: string,
+  size: number | undefined,
+): Promise<number | undefined> {
+  if (size !== undefined) return size;
+  const response = await fetch(url, { method: "HEAD" });
+  const contentLength = response.headers.get("content-length");
+  return response.ok && contentLength ? parseInt(contentLength) : undefined;
+}
+
+// Expected byte size of the source the upload was made from
+async function getExpectedSize(
+  videoId: string,
+  record: UploadRecord | undefined,
+): Promise<number | undefined> {
+  if (record?.strategy === "digital-master") {
+    try {
+      const master = await brightcove.getDigitalMaster(videoId);
+      return master.url ? await sourceSize(master.url, master.size) : master.size;
+    } catch (error) {
+      // The master was deleted since the upload
+      if (error instanceof BrightcoveApiError && error.status === 404) {
+        return undefined;
+      }
+      throw error;
+    }
+  }
+
+  const best = selectBestMp4Source(await brightcove.getSources(videoId));
+  return best ? await sourceSize(best.url, best.size) : undefined;
+}
+
+async function verifyVideo(
+  videoId: string,
+  record: UploadRecord | undefined,
+  replaceCheckpoint: ReplaceCheckpoint,
+): Promise<VerifyResult> {
+  if (await isReplaced(brightcove, videoId, replaceCheckpoint)) {
+    return {
+      videoId,
+      status: "replaced",
+      detail: "replaced with the placeholder, not compared",
+    };
+  }
+
+  const key = archive.videoKey(videoId);
+
+  const head = await archive.headObject(key);
+  if (!head) {
+    return { videoId, status: "missing" };
+  }
+  const s3Size = head.size;
+
+  const sha256 = await archive.getStoredChecksum(key);
+  if (s3Size === 0) {
+    return { videoId, status: "truncated", s3Size, sha256 };
+  }
+
+  const expectedSize = await getExpectedSize(videoId, record);
+  if (expectedSize === undefined) {
+    return {
+      videoId,
+      status: "unverified",
+      s3Size,
+      sha256,
+      detail: "no size available from Brightcove",
+    };
+  }
+
+  const status: VerifyStatus =
+    s3Size === expectedSize
+      ? "ok"
+      : s3Size < expectedSize
+        ? "truncated"
+        : "mismatched";
+  return { videoId, status, s3Size, expectedSize, sha256 };
+}
+
+async function main() {
+  const checkpoint = await loadCheckpoint();
+  const videoIds = Array.from(uploadedIds(checkpoint));
+  const replaceCheckpoint = await loadReplaceCheckpoint();
+  log.info(`Verifying ${videoIds.length} uploaded videos...\n`);
+
+  const results: VerifyResult[] = [];
+  let next = 0;
+
+  async function worker() {
+    while (next < videoIds.length) {
+      const videoId = videoIds[next++]!;
+      const videoStart = Date.now();
+      let result: VerifyResult;
+      let errorClass: string | undefined;
+      try {
+        result = await verifyVideo(
+          videoId,
+          checkpoint.videos[videoId],
+          replaceCheckpoint,
+        );
+      } catch (error) {
+        const fields = errorFields(error);
+        errorClass = fields.errorClass;
+        result = { videoId, status: "error", detail: fields.error };
+      }
+      results.push(result);
+      const fields = {
+        videoId,
+        phase: "verify",
+        status: result.status,
+        bytes: result.s3Size,
+        expectedBytes: result.expectedSize,
+        durationMs: Date.now() - videoStart,
+      };
+      if (result.status === "ok") {
+        log.debug(`✓ ${videoId}`, fields);
+      } else if (result.status === "replaced") {
+        log.debug(`- ${videoId}: ${result.detail}`, fields);
+      } else {
+        log.error(
+          `✗ ${videoId}: ${result.status}` +
+            (result.expectedSize !== undefined
+              ? ` (S3 ${result.s3Size} bytes, expected ${result.expectedSize})`
+              : result.detail
+                ? ` (${result.detail})`
+                : ""),
+          { ...fields, error: result.detail, errorClass },
+        );
+      }
+    }
+  }
+
+  await Promise.all(Array.from({ length: CONCURRENCY }, worker));
+
+  results.sort((a, b) => a.videoId.localeCompare(b.videoId));
+  await Bun.write(
+    `${scriptDir}/verify_report.json`,
+    JSON.stringify(results, null, 2),
+  );
+
+  const count = (status: VerifyStatus) =>
+    results.filter((r) => r.status === status).length;
+  log.info(`\n=== Verification Summary ===`);
+  log.info(`OK: ${count("ok")}`);
+  log.info(`Missing: ${count("missing")}`);
+  log.info(`Truncated: ${count("truncated")}`);
+  log.info(`Mismatched: ${count("mismatched")}`);
+  log.info(`Unverified (no source size): ${count("unverified")}`);
+  log.info(`Skipped (replaced with the placeholder): ${count("replaced")}`);
+  log.info(`Errors: ${count("error")}`);
+  log.info(
+    `Without SHA-256 tag: ${results.filter((r) => r.s3Size !== undefined && !r.sha256).length}`,
+  );
+  log.info(`\nReport saved to verify_report.json`);
+
+  const broken = results.filter((r) => BROKEN.includes(r.status));
+
+  // Results are applied to the checkpoint as it is on disk now, not as it
+  // was loaded at the start: an upload run may have changed it meanwhile.
+  // Videos that are no longer uploaded (e.g. re-uploading) are left alone.
+  const current = dryRun ? checkpoint : await loadCheckpoint();
+  const stillUploaded = (r: VerifyResult) =>
+    isUploaded(current.videos[r.videoId]);
+
+  if (!dryRun) {
+    const verifiedAt = new Date().toISOString();
+    for (const r of results.filter((r) => r.status === "ok")) {
+      if (!stillUploaded(r)) continue;
+      // Keep a stored SHA-256 if the object has no checksum tag
+      updateRecord(current, r.videoId, "verified", {
+        bytes: r.s3Size,
+        verifiedAt,
+        ...(r.sha256 !== undefined && { sha256: r.sha256 }),
+      });
+    }
+  }
+
+  if (broken.length > 0) {
+    if (fix && dryRun) {
+      log.info(
+        `Dry run: would mark ${broken.length} videos as failed in upload_checkpoint.json`,
+      );
+    } else if (fix) {
+      const toFail = broken.filter(stillUploaded);
+      for (const r of toFail) {
+        updateRecord(current, r.videoId, "failed", {
+          lastError: `Verification: ${r.status}`,
+          errorCategory: "verification",
+        });
+      }
+      log.info(
+        `Marked ${toFail.length} videos as failed in upload_checkpoint.json - re-run upload-to-s3.ts to upload them again`,
+      );
+    } else {
+      log.info(
+        `Run with --fix to mark the ${broken.length} broken videos as failed in upload_checkpoint.json`,
+      );
+    }
+  }
+
+  if (!dryRun) {
+    await saveCheckpoint(current);
+  }
+}
+
+main().catch((err) => {
+  log.error("\n🔴 MAIN CRASHED:", {
+    ...errorFields(err),
+    stack: err instanceof Error ? err.stack : String(err),
+  });
+  process.exit(1);
+});
@@ -0,0 +1,39 @@
+// video_sources.json - cached video metadata and source URLs
+
+import { rename } from "node:fs/promises";
+
+export interface VideoSourceEntry {
+  videoId: string;
+  url: string | null;
+  resolution: string;
+  name?: string;
+  duration?: number | null;
+  state?: string;
+  renditionCount?: number;
+}
+
+export const VIDEO_SOURCES_FILE = `${import.meta.dir}/video_sources.json`;
+
+export async function loadVideoSources(
+  path = VIDEO_SOURCES_FILE,
+): Promise<VideoSourceEntry[]> {
+  return (await Bun.file(path).json()) as VideoSourceEntry[];
+}
+
+// Writes go to a temp file that is renamed over the old one, so a crash
+// never leaves a half-written file. Writes are chained so concurrent workers
+// never interleave.
+let pendingWrite: Promise<unknown> = Promise.resolve();
+
+export function saveVideoSources(
+  entries: VideoSourceEntry[],
+  path = VIDEO_SOURCES_FILE,
+): Promise<void> {
+  const write = pendingWrite.then(async () => {
+    const tmpPath = `${path}.tmp`;
+    await Bun.write(tmpPath, JSON.stringify(entries, null, 2));
+    await rename(tmpPath, path);
+  });
+  pendingWrite = write.catch(() => {});
+  return write;
+}
@@ -0,0 +1,34 @@
+import { describe, expect, test } from "bun:test";
+import { flagValue, positionals } from "../src/shared/args.ts";
+
+describe("positionals", () => {
+  test("skips flags and the values of value flags", () => {
+    expect(
+      positionals([
+        "--out-dir",
+        "/tmp",
+        "6343959819112",
+        "--log-level",
+        "debug",
+        "--json",
+        "6343959819113",
+        "--profile",
+        "migration",
+      ]),
+    ).toEqual(["6343959819112", "6343959819113"]);
+  });
+
+  test("keeps the argument after an inline value", () => {
+    expect(positionals(["--out-dir=/tmp", "6343959819112"])).toEqual([
+      "6343959819112",
+    ]);
+  });
+});
+
+describe("flagValue", () => {
+  test("returns the value, the fallback or an empty string", () => {
+    expect(flagValue(["--out", "a.json"], "--out", "b.json")).toBe("a.json");
+    expect(flagValue([], "--out", "b.json")).toBe("b.json");
+    expect(flagValue(["--out"], "--out", "b.json")).toBe("");
+  });
+});
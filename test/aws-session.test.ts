@@ -0,0 +1,109 @@
+import { fromIni } from "@aws-sdk/credential-providers";
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+  createAwsSessionGuard,
+  CredentialsWaitAbortedError,
+} from "../src/shared/aws-session.ts";
+import { ConfigError } from "../src/shared/config.ts";
+import { createS3Archive, type S3Archive } from "../src/shared/s3.ts";
+import {
+  createTestS3Client,
+  EXPIRED_TOKEN,
+  startMockS3,
+  type MockS3Server,
+} from "./mocks/s3-server.ts";
+
+let s3: MockS3Server;
+let archive: S3Archive;
+let clientsCreated = 0;
+
+beforeAll(() => {
+  s3 = startMockS3();
+  archive = createS3Archive(
+    {
+      bucket: s3.bucket,
+      prefix: "brightcove-cleanup/",
+      awsProfile: "test",
+      region: "eu-central-1",
+    },
+    () => {
+      clientsCreated++;
+      return createTestS3Client(s3);
+    },
+  );
+});
+
+afterAll(() => s3.stop());
+
+describe("createAwsSessionGuard", () => {
+  test("waits until the credentials work again", async () => {
+    const events: string[] = [];
+    const guard = createAwsSessionGuard(archive, {
+      pollMs: 10,
+      onExpired: () => events.push("expired"),
+      onResume: () => events.push("resumed"),
+    });
+    const login = s3.failAll(EXPIRED_TOKEN);
+    const clientsBefore = clientsCreated;
+
+    // Concurrent callers share the wait
+    const waits = [guard.waitForLogin(), guard.waitForLogin()];
+    await Bun.sleep(50);
+    expect(events).toEqual(["expired"]);
+    login();
+    await Promise.all(waits);
+
+    expect(events).toEqual(["expired", "resumed"]);
+    // A new client for every check
+    expect(clientsCreated - clientsBefore).toBeGreaterThan(1);
+  });
+
+  test("is aborted by the signal", async () => {
+    const abort = new AbortController();
+    const guard = createAwsSessionGuard(archive, {
+      pollMs: 10,
+      signal: abort.signal,
+    });
+    const login = s3.failAll(EXPIRED_TOKEN);
+    try {
+      const wait = guard.waitForLogin();
+      abort.abort();
+
+      await expect(wait).rejects.toBeInstanceOf(CredentialsWaitAbortedError);
+    } finally {
+      login();
+    }
+  });
+
+  test("fails right away when the AWS profile doesn't exist", async () => {
+    const dir = await mkdtemp(join(tmpdir(), "aws-session-"));
+    const awsConfig = join(dir, "config");
+    await writeFile(awsConfig, "[profile migration]\nregion = eu-central-1\n");
+    const misspelled = createS3Archive(
+      {
+        bucket: s3.bucket,
+        prefix: "brightcove-cleanup/",
+        awsProfile: "migartion",
+        region: "eu-central-1",
+      },
+      () =>
+        createTestS3Client(s3, {
+          credentials: fromIni({
+            profile: "migartion",
+            filepath: awsConfig,
+            configFilepath: awsConfig,
+          }),
+        }),
+    );
+    try {
+      const guard = createAwsSessionGuard(misspelled, { pollMs: 10 });
+
+      await expect(guard.waitForLogin()).rejects.toBeInstanceOf(ConfigError);
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+});
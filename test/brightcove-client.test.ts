@@ -0,0 +1,189 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, test } from "bun:test";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import {
+  BrightcoveApiError,
+  createBrightcoveClient,
+  loadCredentials,
+  parseRetryAfter,
+} from "../src/shared/brightcove-client.ts";
+import {
+  ACCOUNT_ID,
+  startMockBrightcove,
+  type MockBrightcoveServer,
+} from "./mocks/brightcove-server.ts";
+
+let mock: MockBrightcoveServer;
+
+beforeAll(async () => {
+  mock = await startMockBrightcove();
+  mock.addVideo("1001");
+});
+
+afterAll(() => mock.stop());
+
+beforeEach(() => {
+  mock.tokenExpiresIn = 300;
+});
+
+const tokenRequests = () =>
+  mock.requests.filter((r) => r.endsWith("/access_token")).length;
+
+describe("access token", () => {
+  test("is fetched once and reused", async () => {
+    const before = tokenRequests();
+    const client = createBrightcoveClient(mock.clientOptions());
+
+    await client.getVideo("1001");
+    await client.getSources("1001");
+
+    expect(tokenRequests() - before).toBe(1);
+  });
+
+  test("concurrent requests share one refresh", async () => {
+    const before = tokenRequests();
+    const client = createBrightcoveClient(mock.clientOptions());
+
+    await Promise.all(Array.from({ length: 5 }, () => client.getVideo("1001")));
+
+    expect(tokenRequests() - before).toBe(1);
+  });
+
+  test("is refreshed when it is about to expire", async () => {
+    // Expires within the 30s refresh margin
+    mock.tokenExpiresIn = 10;
+    const refreshes: number[] = [];
+    const client = createBrightcoveClient({
+      ...mock.clientOptions(),
+      onTokenRefresh: (expiresIn) => refreshes.push(expiresIn),
+    });
+
+    const first = await client.getAccessToken();
+    const second = await client.getAccessToken();
+
+    expect(second).not.toBe(first);
+    expect(refreshes).toEqual([10, 10]);
+  });
+
+  test("is refreshed once and the request retried on a 401", async () => {
+    const client = createBrightcoveClient(mock.clientOptions());
+    const first = await client.getAccessToken();
+
+    // Revoked on the server before it expires
+    mock.revokeTokens();
+    const video = await client.getVideo("1001");
+
+    expect(video.id).toBe("1001");
+    expect(await client.getAccessToken()).not.toBe(first);
+  });
+
+  test("a 401 after the refresh is thrown", async () => {
+    const client = createBrightcoveClient(mock.clientOptions());
+    mock.failNext("/videos/1001", 401, 2);
+
+    const error = await client.getVideo("1001").catch((e) => e);
+
+    expect(error).toBeInstanceOf(BrightcoveApiError);
+    expect(error.status).toBe(401);
+  });
+
+  test("fails with the status of a rejected token request", async () => {
+    const client = createBrightcoveClient({
+      ...mock.clientOptions(),
+      clientSecret: "wrong",
+    });
+
+    await expect(client.getVideo("1001")).rejects.toThrow(
+      "Failed to get access token: 401",
+    );
+  });
+});
+
+describe("errors", () => {
+  test("429 is retried after Retry-After", async () => {
+    const waits: number[] = [];
+    const client = createBrightcoveClient({
+      ...mock.clientOptions(),
+      onRateLimit: (ms) => waits.push(ms),
+    });
+    mock.failNext("/videos/1001", 429, 2);
+
+    const video = await client.getVideo("1001");
+
+    expect(video.id).toBe("1001");
+    expect(waits).toEqual([0, 0]);
+  });
+
+  test("5xx is thrown as BrightcoveApiError without retrying", async () => {
+    const client = createBrightcoveClient(mock.clientOptions());
+    await client.getAccessToken();
+    mock.failNext("/videos/1001", 503);
+    const before = mock.requests.length;
+
+    const error = await client.getVideo("1001").catch((e) => e);
+
+    expect(error).toBeInstanceOf(BrightcoveApiError);
+    expect(error.status).toBe(503);
+    expect(error.url).toBe(
+      `${mock.url}/cms/v1/accounts/${ACCOUNT_ID}/videos/1001`,
+    );
+    expect(mock.requests.length - before).toBe(1);
+  });
+
+  test("unknown videos are a 404", async () => {
+    const client = createBrightcoveClient(mock.clientOptions());
+
+    const error = await client.getVideo("9999").catch((e) => e);
+
+    expect(error).toBeInstanceOf(BrightcoveApiError);
+    expect(error.status).toBe(404);
+  });
+
+  test("a connection reset is thrown", async () => {
+    const client = createBrightcoveClient(mock.clientOptions());
+    await client.getAccessToken();
+    mock.failNext("/videos/1001", "reset");
+
+    const error = await client.getVideo("1001").catch((e) => e);
+
+    expect(error).not.toBeInstanceOf(BrightcoveApiError);
+    expect(error.code).toBe("ECONNRESET");
+  });
+});
+
+describe("parseRetryAfter", () => {
+  test("reads seconds and HTTP dates", () => {
+    expect(parseRetryAfter("3", 1000)).toBe(3000);
+    expect(parseRetryAfter(null, 1000)).toBe(1000);
+    expect(parseRetryAfter("soon", 1000)).toBe(1000);
+    const date = new Date(Date.now() + 60_000).toUTCString();
+    expect(parseRetryAfter(date, 0)).toBeGreaterThan(55_000);
+  });
+});
+
+describe("loadCredentials", () => {
+  test("reads the secret file, with an account override", async () => {
+    const dir = await mkdtemp(`${tmpdir()}/brightcove-test-`);
+    try {
+      await Bun.write(`${dir}/secret.json`, mock.secret());
+
+      const credentials = await loadCredentials(`${dir}/secret.json`);
+      expect(credentials).toEqual({
+        accountId: ACCOUNT_ID,
+        clientId: "test-client",
+        clientSecret: "test-secret",
+      });
+
+      const other = await loadCredentials(`${dir}/secret.json`, "42");
+      expect(other.accountId).toBe("42");
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  test("fails for a missing file", async () => {
+    await expect(loadCredentials("/nonexistent/secret.json")).rejects.toThrow(
+      "Brightcove secret file not found",
+    );
+  });
+});
@@ -0,0 +1,138 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import {
+  ListObjectsV2Command,
+  NoSuchUpload,
+  S3ServiceException,
+} from "@aws-sdk/client-s3";
+import { BrightcoveApiError } from "../src/shared/brightcove-client.ts";
+import {
+  CdnError,
+  categorizeMessage,
+  classifyError,
+  NoSourceError,
+  RETRY_POLICIES,
+} from "../src/sync-brightcove-videos-to-s3/error-categories.ts";
+import { TruncatedDownloadError } from "../src/sync-brightcove-videos-to-s3/multipart-upload.ts";
+import {
+  startMockBrightcove,
+  type MockBrightcoveServer,
+} from "./mocks/brightcove-server.ts";
+import {
+  createTestS3Client,
+  EXPIRED_TOKEN,
+  SLOW_DOWN,
+  startMockS3,
+  type MockS3Server,
+} from "./mocks/s3-server.ts";
+
+describe("classifyError", () => {
+  test("CDN responses", () => {
+    expect(classifyError(new CdnError(403, "expired"))).toBe("cdn-expired");
+    expect(classifyError(new CdnError(401, ""))).toBe("cdn-expired");
+    expect(classifyError(new CdnError(404, ""))).toBe("cdn-not-found");
+    expect(classifyError(new CdnError(502, ""))).toBe("cdn-error");
+  });
+
+  test("Brightcove API responses", () => {
+    const apiError = (status: number) => new BrightcoveApiError(status, "url", "");
+    expect(classifyError(apiError(429))).toBe("rate-limited");
+    expect(classifyError(apiError(503))).toBe("brightcove-5xx");
+    expect(classifyError(apiError(404))).toBe("brightcove-4xx");
+  });
+
+  test("upload errors", () => {
+    expect(classifyError(new TruncatedDownloadError(10, 20))).toBe("truncated");
+    expect(classifyError(new NoSourceError())).toBe("no-source");
+  });
+
+  test("only some categories are retried within the run", () => {
+    expect(RETRY_POLICIES["cdn-expired"].retryInRun).toBe(true);
+    expect(RETRY_POLICIES.truncated.retryInRun).toBe(true);
+    expect(RETRY_POLICIES["no-source"].retryInRun).toBe(false);
+    expect(RETRY_POLICIES["brightcove-4xx"].retryInRun).toBe(false);
+  });
+});
+
+describe("classifyError with real failures", () => {
+  let brightcove: MockBrightcoveServer;
+  let s3: MockS3Server;
+
+  beforeAll(async () => {
+    brightcove = await startMockBrightcove();
+    brightcove.addVideo("1001", { master: new Uint8Array(4096) });
+    s3 = startMockS3();
+  });
+
+  afterAll(async () => {
+    s3.stop();
+    await brightcove.stop();
+  });
+
+  const cdn = () => `${brightcove.url}/cdn/1001.mp4?gen=1`;
+
+  test("a connection reset is a network error", async () => {
+    brightcove.failNext("/cdn/", "reset");
+
+    const error = await fetch(cdn()).catch((e) => e);
+
+    expect(classifyError(error)).toBe("network");
+  });
+
+  test("a download dropped halfway is a network error", async () => {
+    brightcove.failNext("/cdn/", "drop");
+
+    const response = await fetch(cdn());
+    const error = await response.arrayBuffer().catch((e) => e);
+
+    expect(classifyError(error)).toBe("network");
+  });
+
+  test("expired S3 credentials", async () => {
+    const stop = s3.failAll(EXPIRED_TOKEN);
+    try {
+      const error = await createTestS3Client(s3)
+        .send(new ListObjectsV2Command({ Bucket: s3.bucket }))
+        .catch((e) => e);
+
+      expect(error).toBeInstanceOf(S3ServiceException);
+      expect(classifyError(error)).toBe("s3-auth-expired");
+    } finally {
+      stop();
+    }
+  });
+
+  test("S3 throttling", async () => {
+    // Not retried by the SDK, to see the error itself
+    const client = createTestS3Client(s3, { maxAttempts: 1 });
+    s3.failNext("ListObjectsV2", SLOW_DOWN);
+
+    const error = await client
+      .send(new ListObjectsV2Command({ Bucket: s3.bucket }))
+      .catch((e) => e);
+
+    expect(classifyError(error)).toBe("s3-throttled");
+  });
+
+  test("other S3 errors", () => {
+    const error = new NoSuchUpload({ message: "gone", $metadata: {} });
+    expect(classifyError(error)).toBe("s3-error");
+  });
+});
+
+describe("categorizeMessage", () => {
+  test("reads categories from recorded messages", () => {
+    expect(categorizeMessage("No MP4 source available")).toBe("no-source");
+    expect(categorizeMessage("The provided token has expired.")).toBe(
+      "s3-auth-expired",
+    );
+    expect(categorizeMessage("Brightcove API error 502 for ...")).toBe(
+      "brightcove-5xx",
+    );
+    expect(categorizeMessage("CDN error 403: expired")).toBe("cdn-expired");
+    expect(categorizeMessage("Truncated download: 1 of 2 bytes")).toBe(
+      "truncated",
+    );
+    expect(categorizeMessage("ECONNRESET")).toBe("network");
+    expect(categorizeMessage("something else")).toBe("other");
+  });
+});
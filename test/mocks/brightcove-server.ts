@@ -0,0 +1,422 @@
+// Local stand-in for the Brightcove OAuth, CMS and Dynamic Ingest APIs and
+// the CDN serving the video files
+//
+// A plain HTTP/1.1 server on node:net rather than Bun.serve, so faults can
+// behave like the real ones: a connection reset before the response, or a
+// download dropped halfway through. Every response closes the connection.
+//
+//   <url>/oauth/v4/access_token          client credentials, tokens expire
+//                                        after tokenExpiresIn seconds
+//   <url>/cms/v1/accounts/<id>/videos/…  video, sources, digital_master,
+//                                        ingest_jobs, dynamic renditions
+//   <url>/ingest/v1/accounts/<id>/…      ingest requests
+//   <url>/cdn/<videoId>.<ext>?gen=<n>    digital master downloads (with
+//                                        Range support); URLs handed out
+//                                        before expireCdnUrls() get a 403
+
+import { createServer, type Socket } from "node:net";
+import type {
+  BrightcoveClientOptions,
+  BrightcoveVideo,
+  DynamicRendition,
+  IngestJob,
+  IngestRequest,
+  VideoSource,
+} from "../../src/shared/brightcove-client.ts";
+
+export const ACCOUNT_ID = "1234567890001";
+const CLIENT_ID = "test-client";
+const CLIENT_SECRET = "test-secret";
+
+// A status code to answer with, "reset" to close the connection without a
+// response, or "drop" to close it halfway through the response body
+export type Fault = number | "reset" | "drop";
+
+export interface MockVideo {
+  video: BrightcoveVideo;
+  sources: VideoSource[];
+  // Served by the CDN as the digital master; no master if missing
+  master?: Uint8Array;
+  // File extension of the master's URL (default "mp4")
+  masterExtension?: string;
+  dynamicRenditions?: DynamicRendition[];
+  ingestJobs: IngestJob[];
+}
+
+export interface MockVideoInit extends Partial<Omit<MockVideo, "video">> {
+  video?: Partial<BrightcoveVideo>;
+}
+
+export interface MockRequest {
+  method: string;
+  path: string;
+  query: URLSearchParams;
+  headers: Record<string, string>;
+  body: string;
+}
+
+export interface MockBrightcoveServer {
+  url: string;
+  videos: Map<string, MockVideo>;
+  // Every request as "METHOD /path", in order
+  requests: string[];
+  ingestRequests: { videoId: string; body: IngestRequest }[];
+  tokensIssued: number;
+  // Lifetime of new access tokens in seconds (default 300)
+  tokenExpiresIn: number;
+  addVideo(id: string, init?: MockVideoInit): MockVideo;
+  // Answer the next `times` requests whose path matches with a fault
+  failNext(path: string | RegExp, fault: Fault, times?: number): void;
+  // Reject every access token issued so far with a 401
+  revokeTokens(): void;
+  // Let every CDN URL handed out so far fail with a 403
+  expireCdnUrls(): void;
+  // Options for createBrightcoveClient()
+  clientOptions(): BrightcoveClientOptions;
+  // Env vars pointing a script run in a child process at this server
+  env(): Record<string, string>;
+  // Contents of a secret.json for this server's account
+  secret(): string;
+  stop(): Promise<void>;
+}
+
+const STATUS_TEXT: Record<number, string> = {
+  200: "OK",
+  204: "No Content",
+  206: "Partial Content",
+  400: "Bad Request",
+  401: "Unauthorized",
+  403: "Forbidden",
+  404: "Not Found",
+  405: "Method Not Allowed",
+  416: "Range Not Satisfiable",
+  429: "Too Many Requests",
+  500: "Internal Server Error",
+  502: "Bad Gateway",
+  503: "Service Unavailable",
+};
+
+interface Reply {
+  status: number;
+  headers?: Record<string, string>;
+  body?: string | Uint8Array;
+}
+
+const json = (status: number, data: unknown): Reply => ({
+  status,
+  headers: { "Content-Type": "application/json" },
+  body: JSON.stringify(data),
+});
+
+// Brightcove API error bodies are a list of errors
+const apiError = (status: number, code: string, message = code): Reply =>
+  json(status, [{ error_code: code, message }]);
+
+function send(socket: Socket, reply: Reply, fault?: "drop", head = false) {
+  const body =
+    typeof reply.body === "string"
+      ? Buffer.from(reply.body)
+      : Buffer.from(reply.body ?? new Uint8Array());
+  const headers = {
+    ...reply.headers,
+    "Content-Length": String(body.byteLength),
+    Connection: "close",
+  };
+  socket.write(
+    `HTTP/1.1 ${reply.status} ${STATUS_TEXT[reply.status] ?? "Unknown"}\r\n` +
+      Object.entries(headers)
+        .map(([name, value]) => `${name}: ${value}\r\n`)
+        .join("") +
+      "\r\n",
+  );
+  if (head) {
+    socket.end();
+  } else if (fault === "drop") {
+    socket.write(body.subarray(0, Math.floor(body.byteLength / 2)), () =>
+      socket.destroy(),
+    );
+  } else {
+    socket.end(body);
+  }
+}
+
+// Parse one request off the start of `data`, or null if it's incomplete
+function parseRequest(data: Buffer): MockRequest | null {
+  const headerEnd = data.indexOf("\r\n\r\n");
+  if (headerEnd < 0) return null;
+  const [requestLine = "", ...headerLines] = data
+    .subarray(0, headerEnd)
+    .toString()
+    .split("\r\n");
+  const headers: Record<string, string> = {};
+  for (const line of headerLines) {
+    const colon = line.indexOf(":");
+    headers[line.slice(0, colon).trim().toLowerCase()] = line
+      .slice(colon + 1)
+      .trim();
+  }
+  const length = Number(headers["content-length"] ?? 0);
+  if (data.byteLength < headerEnd + 4 + length) return null;
+
+  const [method = "", target = "/"] = requestLine.split(" ");
+  const url = new URL(target, "http://localhost");
+  return {
+    method,
+    path: url.pathname,
+    query: url.searchParams,
+    headers,
+    body: data.subarray(headerEnd + 4, headerEnd + 4 + length).toString(),
+  };
+}
+
+// Serve `data` for a GET with an optional "bytes=<start>-" Range header
+function serveFile(data: Uint8Array, range: string | undefined): Reply {
+  const headers = { "Content-Type": "video/mp4", "Accept-Ranges": "bytes" };
+  const match = range?.match(/^bytes=(\d+)-$/);
+  if (!match) return { status: 200, headers, body: data };
+  const start = Number(match[1]);
+  if (start >= data.byteLength) {
+    return { status: 416, headers: { "Content-Range": `bytes */${data.byteLength}` } };
+  }
+  return {
+    status: 206,
+    headers: {
+      ...headers,
+      "Content-Range": `bytes ${start}-${data.byteLength - 1}/${data.byteLength}`,
+    },
+    body: data.subarray(start),
+  };
+}
+
+export async function startMockBrightcove(): Promise<MockBrightcoveServer> {
+  const videos = new Map<string, MockVideo>();
+  const requests: string[] = [];
+  const ingestRequests: { videoId: string; body: IngestRequest }[] = [];
+  const faults: { path: string | RegExp; fault: Fault; times: number }[] = [];
+  // Access token -> expiry time
+  const tokens = new Map<string, number>();
+  let cdnGeneration = 1;
+  let url = "";
+
+  function takeFault(path: string): Fault | null {
+    const index = faults.findIndex((f) =>
+      typeof f.path === "string" ? path.includes(f.path) : f.path.test(path),
+    );
+    if (index < 0) return null;
+    const entry = faults[index]!;
+    if (--entry.times <= 0) faults.splice(index, 1);
+    return entry.fault;
+  }
+
+  const cdnUrl = (videoId: string, extension = "mp4") =>
+    `${url}/cdn/${videoId}.${extension}?gen=${cdnGeneration}`;
+
+  function issueToken(request: MockRequest): Reply {
+    const expected = Buffer.from(`${CLIENT_ID}:${CLIENT_SECRET}`).toString(
+      "base64",
+    );
+    if (request.headers["authorization"] !== `Basic ${expected}`) {
+      return json(401, { error: "invalid_client" });
+    }
+    mock.tokensIssued++;
+    const token = `token-${mock.tokensIssued}`;
+    tokens.set(token, Date.now() + mock.tokenExpiresIn * 1000);
+    return json(200, {
+      access_token: token,
+      token_type: "Bearer",
+      expires_in: mock.tokenExpiresIn,
+    });
+  }
+
+  function authorized(request: MockRequest): boolean {
+    const token = request.headers["authorization"]?.replace(/^Bearer /, "");
+    const expiresAt = token ? tokens.get(token) : undefined;
+    return expiresAt !== undefined && Date.now() < expiresAt;
+  }
+
+  function handleApi(request: MockRequest, api: "cms" | "ingest"): Reply {
+    if (!authorized(request)) return apiError(401, "UNAUTHORIZED");
+
+    const match = request.path.match(
+      /^\/(?:cms|ingest)\/v1\/accounts\/([^/]+)\/videos\/([^/]+)(\/.*)?$/,
+    );
+    if (!match || match[1] !== ACCOUNT_ID) {
+      return apiError(404, "RESOURCE_NOT_FOUND");
+    }
+    const [, , videoId = "", rest = ""] = match;
+    const entry = videos.get(videoId);
+    if (!entry) return apiError(404, "RESOURCE_NOT_FOUND");
+
+    if (api === "ingest") {
+      if (request.method !== "POST" || rest !== "/ingest-requests") {
+        return apiError(404, "RESOURCE_NOT_FOUND");
+      }
+      const body = JSON.parse(request.body) as IngestRequest;
+      ingestRequests.push({ videoId, body });
+      const job: IngestJob = {
+        id: `job-${ingestRequests.length}`,
+        state: "processing",
+        video_id: videoId,
+        submitted_at: new Date().toISOString(),
+      };
+      entry.ingestJobs.push(job);
+      return json(200, { id: job.id });
+    }
+
+    if (rest === "" && request.method === "PATCH") {
+      Object.assign(entry.video, JSON.parse(request.body));
+      return json(200, entry.video);
+    }
+    if (request.method !== "GET") return apiError(405, "METHOD_NOT_ALLOWED");
+    switch (rest) {
+      case "":
+        return json(200, entry.video);
+      case "/sources":
+        return json(200, entry.sources);
+      case "/digital_master":
+        if (!entry.master) return apiError(404, "RESOURCE_NOT_FOUND");
+        return json(200, {
+          id: `master-${videoId}`,
+          width: 1920,
+          height: 1080,
+          size: entry.master.byteLength,
+          url: cdnUrl(videoId, entry.masterExtension),
+        });
+      case "/ingest_jobs":
+        return json(200, entry.ingestJobs);
+      case "/assets/dynamic_renditions":
+        if (!entry.dynamicRenditions) {
+          return apiError(404, "RESOURCE_NOT_FOUND");
+        }
+        return json(200, entry.dynamicRenditions);
+      default:
+        return apiError(404, "RESOURCE_NOT_FOUND");
+    }
+  }
+
+  function handleCdn(request: MockRequest): Reply {
+    const videoId = request.path.match(/^\/cdn\/([^/.]+)\.[a-z0-9]+$/)?.[1] ?? "";
+    const master = videos.get(videoId)?.master;
+    if (!master) return { status: 404, body: "Not Found" };
+    if (Number(request.query.get("gen")) < cdnGeneration) {
+      return { status: 403, body: "Access Denied: URL expired" };
+    }
+    return serveFile(master, request.headers["range"]);
+  }
+
+  function handle(request: MockRequest): Reply {
+    if (request.path === "/oauth/v4/access_token" && request.method === "POST") {
+      return issueToken(request);
+    }
+    if (request.path.startsWith("/cms/v1/")) return handleApi(request, "cms");
+    if (request.path.startsWith("/ingest/v1/")) {
+      return handleApi(request, "ingest");
+    }
+    if (request.path.startsWith("/cdn/")) return handleCdn(request);
+    return { status: 404, body: "Not Found" };
+  }
+
+  const server = createServer((socket) => {
+    let data = Buffer.alloc(0);
+    socket.on("error", () => {});
+    socket.on("data", (chunk: Buffer) => {
+      data = Buffer.concat([data, chunk]);
+      const request = parseRequest(data);
+      if (!request) return;
+      socket.removeAllListeners("data");
+
+      requests.push(`${request.method} ${request.path}`);
+      const fault = takeFault(request.path);
+      if (fault === "reset") {
+        socket.destroy();
+      } else if (typeof fault === "number") {
+        const reply = apiError(fault, `MOCK_FAULT_${fault}`);
+        // Rate limits are retried right away instead of after 1s, 2s, ...
+        if (fault === 429) reply.headers = { ...reply.headers, "Retry-After": "0" };
+        send(socket, reply);
+      } else {
+        send(
+          socket,
+          handle(request),
+          fault ?? undefined,
+          request.method === "HEAD",
+        );
+      }
+    });
+  });
+  await new Promise<void>((resolve) =>
+    server.listen(0, "127.0.0.1", () => resolve()),
+  );
+  const address = server.address();
+  url = `http://127.0.0.1:${typeof address === "object" ? address?.port : 0}`;
+
+  const mock: MockBrightcoveServer = {
+    url,
+    videos,
+    requests,
+    ingestRequests,
+    tokensIssued: 0,
+    tokenExpiresIn: 300,
+
+    addVideo(id, init = {}) {
+      const entry: MockVideo = {
+        sources: [],
+        ingestJobs: [],
+        ...init,
+        video: {
+          id,
+          name: `Video ${id}`,
+          state: "ACTIVE",
+          complete: true,
+          delivery_type: "dynamic_origin",
+          has_digital_master: init.master !== undefined,
+          duration: 4334,
+          tags: [],
+          ...init.video,
+        },
+      };
+      videos.set(id, entry);
+      return entry;
+    },
+
+    failNext(path, fault, times = 1) {
+      faults.push({ path, fault, times });
+    },
+
+    revokeTokens() {
+      tokens.clear();
+    },
+
+    expireCdnUrls() {
+      cdnGeneration++;
+    },
+
+    clientOptions: () => ({
+      accountId: ACCOUNT_ID,
+      clientId: CLIENT_ID,
+      clientSecret: CLIENT_SECRET,
+      oauthBaseUrl: `${url}/oauth/v4`,
+      cmsBaseUrl: `${url}/cms/v1`,
+      ingestBaseUrl: `${url}/ingest/v1`,
+    }),
+
+    env: () => ({
+      BRIGHTCOVE_OAUTH_URL: `${url}/oauth/v4`,
+      BRIGHTCOVE_CMS_URL: `${url}/cms/v1`,
+      BRIGHTCOVE_INGEST_URL: `${url}/ingest/v1`,
+    }),
+
+    secret: () =>
+      JSON.stringify({
+        client_id: CLIENT_ID,
+        client_secret: CLIENT_SECRET,
+        maximum_scope: [{ identity: { "account-id": ACCOUNT_ID } }],
+      }),
+
+    stop: () =>
+      new Promise((resolve) => {
+        server.close(() => resolve());
+      }),
+  };
+  return mock;
+}
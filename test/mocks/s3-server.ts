@@ -0,0 +1,309 @@
+// In-memory S3 stand-in for tests
+//
+// Serves the subset of the S3 REST API the scripts use (objects, object
+// tagging, ListObjectsV2 and multipart uploads) with path-style addressing,
+// e.g. PUT /<bucket>/<key>. Point an S3Client at it with
+// createTestS3Client(server), or with AWS_ENDPOINT_URL_S3 for a script run
+// in a child process. Faults can be injected per operation.
+
+import { S3Client, type S3ClientConfig } from "@aws-sdk/client-s3";
+
+export type S3Operation =
+  | "PutObject"
+  | "GetObject"
+  | "HeadObject"
+  | "ListObjectsV2"
+  | "PutObjectTagging"
+  | "GetObjectTagging"
+  | "CreateMultipartUpload"
+  | "UploadPart"
+  | "ListParts"
+  | "CompleteMultipartUpload"
+  | "AbortMultipartUpload";
+
+export interface S3Fault {
+  status: number;
+  code: string;
+  message?: string;
+}
+
+export const EXPIRED_TOKEN: S3Fault = {
+  status: 400,
+  code: "ExpiredToken",
+  message: "The provided token has expired.",
+};
+
+export const SLOW_DOWN: S3Fault = {
+  status: 503,
+  code: "SlowDown",
+  message: "Please reduce your request rate.",
+};
+
+export interface StoredObject {
+  body: Uint8Array;
+  contentType: string;
+  tags: Record<string, string>;
+}
+
+export interface MockUpload {
+  key: string;
+  // From CreateMultipartUpload, given to the completed object
+  contentType?: string;
+  parts: Map<number, Uint8Array>;
+}
+
+export interface MockS3Server {
+  url: string;
+  bucket: string;
+  objects: Map<string, StoredObject>;
+  // Open multipart uploads by uploadId
+  uploads: Map<string, MockUpload>;
+  // Number of requests per operation
+  requests: Map<S3Operation, number>;
+  // Fail the next `times` requests of an operation
+  failNext(operation: S3Operation, fault: S3Fault, times?: number): void;
+  // Fail every request until the returned function is called
+  failAll(fault: S3Fault): () => void;
+  stop(): void;
+}
+
+const xmlEscape = (text: string) =>
+  text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+
+function xml(root: string, body: string, status = 200): Response {
+  return new Response(
+    `<?xml version="1.0" encoding="UTF-8"?>\n<${root}>${body}</${root}>`,
+    { status, headers: { "Content-Type": "application/xml" } },
+  );
+}
+
+function errorResponse(fault: S3Fault, method: string): Response {
+  // HEAD responses have no body, the SDK maps them by status code
+  if (method === "HEAD") return new Response(null, { status: fault.status });
+  return xml(
+    "Error",
+    `<Code>${fault.code}</Code><Message>${xmlEscape(fault.message ?? fault.code)}</Message>`,
+    fault.status,
+  );
+}
+
+const etagOf = (data: Uint8Array) =>
+  `"${new Bun.CryptoHasher("md5").update(data).digest("hex")}"`;
+
+function operationOf(method: string, key: string, query: URLSearchParams): S3Operation | null {
+  if (!key) return method === "GET" ? "ListObjectsV2" : null;
+  if (query.has("tagging")) {
+    return method === "PUT" ? "PutObjectTagging" : "GetObjectTagging";
+  }
+  if (query.has("uploads") && method === "POST") return "CreateMultipartUpload";
+  if (query.has("uploadId")) {
+    if (method === "PUT") return "UploadPart";
+    if (method === "GET") return "ListParts";
+    if (method === "POST") return "CompleteMultipartUpload";
+    if (method === "DELETE") return "AbortMultipartUpload";
+  }
+  if (method === "PUT") return "PutObject";
+  if (method === "GET") return "GetObject";
+  if (method === "HEAD") return "HeadObject";
+  return null;
+}
+
+export function startMockS3(bucket = "test-bucket"): MockS3Server {
+  const objects = new Map<string, StoredObject>();
+  const uploads = new Map<string, MockUpload>();
+  const requests = new Map<S3Operation, number>();
+  const faults: { operation: S3Operation | null; fault: S3Fault; times: number }[] = [];
+  let nextUploadId = 1;
+
+  function takeFault(operation: S3Operation): S3Fault | null {
+    const index = faults.findIndex(
+      (f) => f.operation === null || f.operation === operation,
+    );
+    if (index < 0) return null;
+    const entry = faults[index]!;
+    if (entry.operation !== null && --entry.times <= 0) faults.splice(index, 1);
+    return entry.fault;
+  }
+
+  async function handle(request: Request): Promise<Response> {
+    const url = new URL(request.url);
+    const [, requestBucket = "", ...keyParts] = url.pathname.split("/");
+    const key = decodeURIComponent(keyParts.join("/"));
+    const query = url.searchParams;
+    const operation = operationOf(request.method, key, query);
+
+    if (requestBucket !== bucket || !operation) {
+      return errorResponse({ status: 404, code: "NoSuchBucket" }, request.method);
+    }
+    requests.set(operation, (requests.get(operation) ?? 0) + 1);
+    const fault = takeFault(operation);
+    if (fault) return errorResponse(fault, request.method);
+
+    const noSuchKey = () =>
+      errorResponse({ status: 404, code: "NoSuchKey" }, request.method);
+    const noSuchUpload = () =>
+      errorResponse({ status: 404, code: "NoSuchUpload" }, request.method);
+
+    switch (operation) {
+      case "PutObject": {
+        const body = new Uint8Array(await request.arrayBuffer());
+        objects.set(key, {
+          body,
+          contentType: request.headers.get("content-type") ?? "binary/octet-stream",
+          tags: {},
+        });
+        return new Response(null, { headers: { ETag: etagOf(body) } });
+      }
+      case "GetObject": {
+        const object = objects.get(key);
+        if (!object) return noSuchKey();
+        return new Response(object.body, {
+          headers: { "Content-Type": object.contentType, ETag: etagOf(object.body) },
+        });
+      }
+      case "HeadObject": {
+        const object = objects.get(key);
+        if (!object) return new Response(null, { status: 404 });
+        return new Response(null, {
+          headers: {
+            "Content-Length": String(object.body.byteLength),
+            "Content-Type": object.contentType,
+            ETag: etagOf(object.body),
+          },
+        });
+      }
+      case "ListObjectsV2": {
+        const prefix = query.get("prefix") ?? "";
+        const maxKeys = Number(query.get("max-keys") ?? 1000);
+        const keys = [...objects.keys()]
+          .filter((k) => k.startsWith(prefix))
+          .sort()
+          .slice(0, maxKeys);
+        const contents = keys
+          .map((k) => {
+            const object = objects.get(k)!;
+            return `<Contents><Key>${xmlEscape(k)}</Key><Size>${object.body.byteLength}</Size><ETag>${xmlEscape(etagOf(object.body))}</ETag><LastModified>${new Date().toISOString()}</LastModified></Contents>`;
+          })
+          .join("");
+        return xml(
+          "ListBucketResult",
+          `<Name>${bucket}</Name><Prefix>${xmlEscape(prefix)}</Prefix><KeyCount>${keys.length}</KeyCount><IsTruncated>false</IsTruncated>${contents}`,
+        );
+      }
+      case "PutObjectTagging": {
+        const object = objects.get(key);
+        if (!object) return noSuchKey();
+        const body = await request.text();
+        object.tags = {};
+        for (const match of body.matchAll(/<Key>(.*?)<\/Key>\s*<Value>(.*?)<\/Value>/g)) {
+          object.tags[match[1]!] = match[2]!;
+        }
+        return new Response(null);
+      }
+      case "GetObjectTagging": {
+        const object = objects.get(key);
+        if (!object) return noSuchKey();
+        const tags = Object.entries(object.tags)
+          .map(([k, v]) => `<Tag><Key>${xmlEscape(k)}</Key><Value>${xmlEscape(v)}</Value></Tag>`)
+          .join("");
+        return xml("Tagging", `<TagSet>${tags}</TagSet>`);
+      }
+      case "CreateMultipartUpload": {
+        const uploadId = `upload-${nextUploadId++}`;
+        uploads.set(uploadId, {
+          key,
+          contentType: request.headers.get("content-type") ?? undefined,
+          parts: new Map(),
+        });
+        return xml(
+          "InitiateMultipartUploadResult",
+          `<Bucket>${bucket}</Bucket><Key>${xmlEscape(key)}</Key><UploadId>${uploadId}</UploadId>`,
+        );
+      }
+      case "UploadPart": {
+        const upload = uploads.get(query.get("uploadId")!);
+        if (!upload) return noSuchUpload();
+        const body = new Uint8Array(await request.arrayBuffer());
+        upload.parts.set(Number(query.get("partNumber")), body);
+        return new Response(null, { headers: { ETag: etagOf(body) } });
+      }
+      case "ListParts": {
+        const upload = uploads.get(query.get("uploadId")!);
+        if (!upload) return noSuchUpload();
+        const parts = [...upload.parts.entries()]
+          .sort(([a], [b]) => a - b)
+          .map(
+            ([number, data]) =>
+              `<Part><PartNumber>${number}</PartNumber><ETag>${xmlEscape(etagOf(data))}</ETag><Size>${data.byteLength}</Size></Part>`,
+          )
+          .join("");
+        return xml(
+          "ListPartsResult",
+          `<Bucket>${bucket}</Bucket><Key>${xmlEscape(key)}</Key><UploadId>${query.get("uploadId")}</UploadId><IsTruncated>false</IsTruncated>${parts}`,
+        );
+      }
+      case "CompleteMultipartUpload": {
+        const uploadId = query.get("uploadId")!;
+        const upload = uploads.get(uploadId);
+        if (!upload) return noSuchUpload();
+        const requested = [
+          ...(await request.text()).matchAll(/<PartNumber>(\d+)<\/PartNumber>/g),
+        ].map((match) => Number(match[1]));
+        const chunks = requested.map((number) => upload.parts.get(number));
+        if (chunks.some((chunk) => chunk === undefined)) {
+          return errorResponse({ status: 400, code: "InvalidPart" }, request.method);
+        }
+        const body = new Uint8Array(Buffer.concat(chunks as Uint8Array[]));
+        objects.set(key, {
+          body,
+          contentType: upload.contentType ?? "binary/octet-stream",
+          tags: {},
+        });
+        uploads.delete(uploadId);
+        return xml(
+          "CompleteMultipartUploadResult",
+          `<Bucket>${bucket}</Bucket><Key>${xmlEscape(key)}</Key><ETag>${xmlEscape(etagOf(body))}</ETag>`,
+        );
+      }
+      case "AbortMultipartUpload": {
+        if (!uploads.delete(query.get("uploadId")!)) return noSuchUpload();
+        return new Response(null, { status: 204 });
+      }
+    }
+  }
+
+  const server = Bun.serve({ port: 0, hostname: "127.0.0.1", fetch: handle });
+
+  return {
+    url: `http://127.0.0.1:${server.port}`,
+    bucket,
+    objects,
+    uploads,
+    requests,
+    failNext(operation, fault, times = 1) {
+      faults.push({ operation, fault, times });
+    },
+    failAll(fault) {
+      const entry = { operation: null, fault, times: Infinity };
+      faults.push(entry);
+      return () => {
+        faults.splice(faults.indexOf(entry), 1);
+      };
+    },
+    stop: () => server.stop(true),
+  };
+}
+
+// S3 client for the stand-in, e.g. as the client factory of createS3Archive()
+export function createTestS3Client(
+  server: MockS3Server,
+  options: S3ClientConfig = {},
+): S3Client {
+  return new S3Client({
+    endpoint: server.url,
+    region: "eu-central-1",
+    forcePathStyle: true,
+    credentials: { accessKeyId: "test", secretAccessKey: "test" },
+    ...options,
+  });
+}
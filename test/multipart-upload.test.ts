@@ -0,0 +1,176 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, test } from "bun:test";
+import { createS3Archive, type S3Archive } from "../src/shared/s3.ts";
+import { classifyError } from "../src/sync-brightcove-videos-to-s3/error-categories.ts";
+import {
+  hashStoredObject,
+  openMultipartUpload,
+  PART_SIZE,
+  TruncatedDownloadError,
+  UploadInterruptedError,
+} from "../src/sync-brightcove-videos-to-s3/multipart-upload.ts";
+import {
+  createTestS3Client,
+  EXPIRED_TOKEN,
+  startMockS3,
+  type MockS3Server,
+} from "./mocks/s3-server.ts";
+
+// Two full parts and a smaller last one
+const SIZE = 2 * PART_SIZE + 1234;
+const DATA = new Uint8Array(SIZE).map((_, i) => (i * 31) % 251);
+const KEY = "brightcove-cleanup/1001.mp4";
+
+let s3: MockS3Server;
+let archive: S3Archive;
+
+// DATA from `start`, in chunks of a part each. With `abort`, the controller
+// is aborted instead of reading past `abortAfter` bytes.
+function stream(
+  start = 0,
+  options: { abort?: AbortController; abortAfter?: number; end?: number } = {},
+): ReadableStream<Uint8Array> {
+  let offset = start;
+  const end = options.end ?? SIZE;
+  return new ReadableStream({
+    pull(controller) {
+      if (options.abort && offset - start >= options.abortAfter!) {
+        options.abort.abort();
+        return;
+      }
+      if (offset >= end) return controller.close();
+      const chunk = DATA.slice(offset, Math.min(offset + PART_SIZE, end));
+      offset += chunk.byteLength;
+      controller.enqueue(chunk);
+    },
+  });
+}
+
+beforeAll(() => {
+  s3 = startMockS3();
+  archive = createS3Archive(
+    {
+      bucket: s3.bucket,
+      prefix: "brightcove-cleanup/",
+      awsProfile: "test",
+      region: "eu-central-1",
+    },
+    () => createTestS3Client(s3),
+  );
+});
+
+afterAll(() => s3.stop());
+
+beforeEach(() => {
+  s3.objects.clear();
+  s3.uploads.clear();
+});
+
+const open = (options: Parameters<typeof openMultipartUpload>[2] = {
+  contentType: "video/mp4",
+  totalBytes: SIZE,
+}) => openMultipartUpload(archive, KEY, options);
+
+describe("openMultipartUpload", () => {
+  test("uploads a stream in parts", async () => {
+    const multipart = await open();
+    expect(multipart.offset).toBe(0);
+
+    const { bytes } = await multipart.upload(stream(), { expectedBytes: SIZE });
+
+    expect(bytes).toBe(SIZE);
+    expect(s3.objects.get(KEY)?.body).toEqual(DATA);
+    expect(s3.uploads.size).toBe(0);
+    expect(await hashStoredObject(archive, KEY)).toBe(
+      new Bun.CryptoHasher("sha256").update(DATA).digest("hex"),
+    );
+  });
+
+  test("an interrupted upload resumes after the last part", async () => {
+    const abort = new AbortController();
+    const first = await open();
+
+    const error = await first
+      .upload(stream(0, { abort, abortAfter: 2 * PART_SIZE }), {
+        expectedBytes: SIZE,
+        signal: abort.signal,
+      })
+      .catch((e) => e);
+
+    expect(error).toBeInstanceOf(UploadInterruptedError);
+    expect(s3.uploads.get(first.state.uploadId)?.parts.size).toBe(2);
+    expect(s3.objects.has(KEY)).toBe(false);
+
+    // The next run continues with a Range request at the offset
+    const second = await open({
+      contentType: "video/mp4",
+      totalBytes: SIZE,
+      resume: first.state,
+    });
+    expect(second.state.uploadId).toBe(first.state.uploadId);
+    expect(second.offset).toBe(2 * PART_SIZE);
+
+    const { bytes } = await second.upload(stream(second.offset), {
+      expectedBytes: SIZE,
+    });
+
+    expect(bytes).toBe(SIZE);
+    expect(s3.objects.get(KEY)?.body).toEqual(DATA);
+  });
+
+  test("a truncated download isn't completed", async () => {
+    const multipart = await open();
+
+    const error = await multipart
+      .upload(stream(0, { end: PART_SIZE + 10 }), { expectedBytes: SIZE })
+      .catch((e) => e);
+
+    expect(error).toBeInstanceOf(TruncatedDownloadError);
+    expect(classifyError(error)).toBe("truncated");
+    expect(s3.objects.has(KEY)).toBe(false);
+    // The full part is kept to resume from
+    expect(s3.uploads.get(multipart.state.uploadId)?.parts.size).toBe(1);
+  });
+
+  test("a changed source starts over", async () => {
+    const first = await open();
+    await first
+      .upload(stream(0, { end: PART_SIZE }), { expectedBytes: SIZE })
+      .catch(() => {});
+
+    const second = await open({
+      contentType: "video/mp4",
+      totalBytes: SIZE + 1,
+      resume: first.state,
+    });
+
+    expect(second.offset).toBe(0);
+    expect(second.state.uploadId).not.toBe(first.state.uploadId);
+    expect(s3.uploads.has(first.state.uploadId)).toBe(false);
+  });
+
+  test("an expired upload starts over", async () => {
+    const first = await open();
+    await first.abort();
+
+    const second = await open({
+      contentType: "video/mp4",
+      totalBytes: SIZE,
+      resume: first.state,
+    });
+
+    expect(second.offset).toBe(0);
+    expect(second.state.uploadId).not.toBe(first.state.uploadId);
+  });
+
+  test("S3 errors of a part fail the upload", async () => {
+    const multipart = await open();
+    s3.failNext("UploadPart", EXPIRED_TOKEN);
+
+    const error = await multipart
+      .upload(stream(), { expectedBytes: SIZE })
+      .catch((e) => e);
+
+    expect(classifyError(error)).toBe("s3-auth-expired");
+    expect(s3.objects.has(KEY)).toBe(false);
+  });
+});
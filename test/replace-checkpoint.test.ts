@@ -0,0 +1,163 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import {
+  loadReplaceCheckpoint,
+  markRestored,
+  saveJobStates,
+  saveReplaceCheckpoint,
+  saveReplaceEntry,
+} from "../src/replace-brightcove-videos-with-placeholder/replace-checkpoint.ts";
+
+let dir: string;
+let path: string;
+
+beforeEach(async () => {
+  dir = await mkdtemp(`${tmpdir()}/replace-checkpoint-test-`);
+  path = `${dir}/replace_checkpoint.json`;
+});
+
+afterEach(() => rm(dir, { recursive: true, force: true }));
+
+describe("loadReplaceCheckpoint", () => {
+  test("starts empty without a file", async () => {
+    expect(await loadReplaceCheckpoint(path)).toEqual({ jobs: {} });
+  });
+
+  test("throws on a corrupt file instead of starting empty", async () => {
+    await Bun.write(path, "{ not json");
+    await expect(loadReplaceCheckpoint(path)).rejects.toThrow();
+  });
+});
+
+describe("saveJobStates", () => {
+  test("keeps jobs and tags saved by another process", async () => {
+    await saveReplaceCheckpoint(
+      {
+        jobs: {
+          "1001": { jobId: "job-1", submittedAt: "t0", tagged: false },
+        },
+      },
+      path,
+    );
+    // Saved by a concurrent replace run after the monitor loaded the file
+    await saveReplaceCheckpoint(
+      {
+        jobs: {
+          "1001": { jobId: "job-1", submittedAt: "t0", tagged: true },
+          "1002": { jobId: "job-2", submittedAt: "t1", tagged: false },
+        },
+      },
+      path,
+    );
+
+    await saveJobStates(
+      {
+        "1001": {
+          jobId: "job-1",
+          state: "finished",
+          updatedAt: "t2",
+          errorCode: null,
+          errorMessage: null,
+        },
+      },
+      path,
+    );
+
+    const { jobs } = await loadReplaceCheckpoint(path);
+    expect(jobs["1001"]).toMatchObject({ tagged: true, state: "finished" });
+    expect(jobs["1002"]).toEqual({
+      jobId: "job-2",
+      submittedAt: "t1",
+      tagged: false,
+    });
+  });
+
+  test("ignores the state of a job that was resubmitted meanwhile", async () => {
+    await saveReplaceCheckpoint(
+      {
+        jobs: {
+          "1001": {
+            jobId: "job-new",
+            submittedAt: "t1",
+            tagged: false,
+            state: "submitted",
+          },
+        },
+      },
+      path,
+    );
+
+    await saveJobStates(
+      { "1001": { jobId: "job-old", state: "failed", updatedAt: "t2" } },
+      path,
+    );
+
+    const { jobs } = await loadReplaceCheckpoint(path);
+    expect(jobs["1001"]).toMatchObject({ jobId: "job-new", state: "submitted" });
+  });
+});
+
+describe("saveReplaceEntry", () => {
+  test("keeps the job states of other videos saved meanwhile", async () => {
+    await saveReplaceCheckpoint(
+      {
+        jobs: {
+          "1001": { jobId: "job-1", submittedAt: "t0", tagged: false },
+          "1002": {
+            jobId: "job-2",
+            submittedAt: "t0",
+            tagged: false,
+            state: "processing",
+          },
+        },
+      },
+      path,
+    );
+    // Polled by check-job-status.ts after the replace run loaded the file
+    await saveJobStates(
+      { "1002": { jobId: "job-2", state: "finished", updatedAt: "t1" } },
+      path,
+    );
+
+    await saveReplaceEntry(
+      "1001",
+      { jobId: "job-1", submittedAt: "t0", tagged: true, state: "finished" },
+      path,
+    );
+
+    const { jobs } = await loadReplaceCheckpoint(path);
+    expect(jobs["1001"]).toMatchObject({ tagged: true, state: "finished" });
+    expect(jobs["1002"]).toMatchObject({ state: "finished", updatedAt: "t1" });
+  });
+});
+
+describe("markRestored", () => {
+  test("records the restore in the video's entry only", async () => {
+    await saveReplaceCheckpoint(
+      {
+        jobs: {
+          "1001": {
+            jobId: "job-1",
+            submittedAt: "t0",
+            tagged: true,
+            state: "finished",
+          },
+        },
+      },
+      path,
+    );
+
+    await markRestored("1001", { restoredAt: "t1", restoreJobId: "job-r" }, path);
+    await markRestored("1002", { restoredAt: "t1", restoreJobId: "job-s" }, path);
+
+    const { jobs } = await loadReplaceCheckpoint(path);
+    expect(jobs["1001"]).toMatchObject({
+      jobId: "job-1",
+      state: "finished",
+      restoredAt: "t1",
+      restoreJobId: "job-r",
+    });
+    expect(jobs["1002"]).toBeUndefined();
+  });
+});
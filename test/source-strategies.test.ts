@@ -0,0 +1,154 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import {
+  createBrightcoveClient,
+  selectBestMp4Source,
+  selectHlsSource,
+  type BrightcoveClient,
+  type VideoSource,
+} from "../src/shared/brightcove-client.ts";
+import {
+  containerContentType,
+  resolveSource,
+} from "../src/sync-brightcove-videos-to-s3/source-strategies.ts";
+import {
+  startMockBrightcove,
+  type MockBrightcoveServer,
+} from "./mocks/brightcove-server.ts";
+
+const MP4_SOURCES: VideoSource[] = [
+  {
+    src: "https://cdn.example.com/640.mp4",
+    container: "MP4",
+    width: 640,
+    height: 360,
+    size: 1000,
+  },
+  {
+    src: "https://cdn.example.com/1280.mp4",
+    container: "MP4",
+    width: 1280,
+    height: 720,
+    size: 3000,
+  },
+  // Higher, but not over https
+  { src: "http://cdn.example.com/1920.mp4", container: "MP4", width: 1920, height: 1080 },
+  {
+    src: "https://cdn.example.com/master.m3u8",
+    type: "application/x-mpegURL",
+  },
+];
+
+const HLS_ONLY: VideoSource[] = [
+  {
+    src: "https://cdn.example.com/drm.m3u8",
+    type: "application/x-mpegURL",
+    key_systems: { "com.widevine.alpha": {} },
+  },
+  {
+    src: "https://cdn.example.com/clear.m3u8",
+    type: "application/vnd.apple.mpegurl",
+  },
+  { src: "https://cdn.example.com/manifest.mpd", type: "application/dash+xml" },
+];
+
+describe("selectBestMp4Source", () => {
+  test("picks the highest MP4 served over https", () => {
+    expect(selectBestMp4Source(MP4_SOURCES)).toEqual({
+      url: "https://cdn.example.com/1280.mp4",
+      resolution: "1280x720",
+      size: 3000,
+    });
+  });
+
+  test("is null without MP4 sources", () => {
+    expect(selectBestMp4Source(HLS_ONLY)).toBeNull();
+    expect(selectBestMp4Source([])).toBeNull();
+  });
+});
+
+describe("selectHlsSource", () => {
+  test("skips DRM-protected playlists", () => {
+    expect(selectHlsSource(HLS_ONLY)).toBe("https://cdn.example.com/clear.m3u8");
+  });
+
+  test("is null without HLS sources", () => {
+    expect(selectHlsSource([{ src: "https://cdn.example.com/a.mpd" }])).toBeNull();
+  });
+});
+
+describe("resolveSource", () => {
+  let mock: MockBrightcoveServer;
+  let client: BrightcoveClient;
+
+  beforeAll(async () => {
+    mock = await startMockBrightcove();
+    client = createBrightcoveClient(mock.clientOptions());
+    mock.addVideo("mp4", { sources: MP4_SOURCES, master: new Uint8Array(10) });
+    mock.addVideo("master", { master: new Uint8Array(2048) });
+    mock.addVideo("mov-master", {
+      master: new Uint8Array(512),
+      masterExtension: "mov",
+    });
+    // Says it has a master, but it was deleted
+    mock.addVideo("deleted-master", { video: { has_digital_master: true } });
+    mock.addVideo("nothing");
+  });
+
+  afterAll(() => mock.stop());
+
+  test("prefers the MP4 rendition", async () => {
+    const source = await resolveSource(client, "mp4");
+
+    expect(source).toEqual({
+      strategy: "mp4",
+      url: "https://cdn.example.com/1280.mp4",
+      resolution: "1280x720",
+      size: 3000,
+      container: "mp4",
+    });
+  });
+
+  test("falls back to the digital master without MP4", async () => {
+    const source = await resolveSource(client, "master");
+
+    expect(source?.strategy).toBe("digital-master");
+    expect(source?.url).toStartWith(`${mock.url}/cdn/master.mp4`);
+    expect(source?.resolution).toBe("1920x1080");
+    expect(source?.size).toBe(2048);
+    expect(source?.container).toBe("mp4");
+  });
+
+  test("keeps the container of a digital master that isn't an MP4", async () => {
+    const source = await resolveSource(client, "mov-master");
+
+    expect(source?.url).toStartWith(`${mock.url}/cdn/mov-master.mov`);
+    expect(source?.container).toBe("mov");
+    expect(containerContentType(source!.container)).toBe("video/quicktime");
+    expect(containerContentType("unknown")).toBe("application/octet-stream");
+  });
+
+  test("a fresh source replaces an expired CDN URL", async () => {
+    const expired = await resolveSource(client, "master");
+    mock.expireCdnUrls();
+
+    expect((await fetch(expired!.url)).status).toBe(403);
+
+    const fresh = await resolveSource(client, "master");
+    const response = await fetch(fresh!.url);
+    expect(response.status).toBe(200);
+    expect((await response.arrayBuffer()).byteLength).toBe(2048);
+  });
+
+  test("is null without MP4, master or HLS", async () => {
+    expect(await resolveSource(client, "deleted-master")).toBeNull();
+    expect(await resolveSource(client, "nothing")).toBeNull();
+  });
+
+  test("throws Brightcove errors other than a missing master", async () => {
+    mock.failNext("/videos/master/digital_master", 500);
+
+    await expect(resolveSource(client, "master")).rejects.toThrow(
+      "Brightcove API error 500",
+    );
+  });
+});
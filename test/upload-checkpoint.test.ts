@@ -0,0 +1,107 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { mkdtemp, readdir, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import {
+  isUploaded,
+  loadCheckpoint,
+  saveCheckpoint,
+  updateRecord,
+  uploadedIds,
+  type UploadCheckpoint,
+} from "../src/sync-brightcove-videos-to-s3/upload-checkpoint.ts";
+
+let dir: string;
+let path: string;
+
+beforeEach(async () => {
+  dir = await mkdtemp(`${tmpdir()}/upload-checkpoint-test-`);
+  path = `${dir}/upload_checkpoint.json`;
+});
+
+afterEach(() => rm(dir, { recursive: true, force: true }));
+
+describe("loadCheckpoint", () => {
+  test("starts empty without a file", async () => {
+    expect(await loadCheckpoint(path)).toEqual({ videos: {} });
+  });
+
+  test("throws on a corrupt file instead of starting empty", async () => {
+    await Bun.write(path, "{ not json");
+    await expect(loadCheckpoint(path)).rejects.toThrow();
+  });
+
+  test("migrates the legacy completed list", async () => {
+    await Bun.write(path, JSON.stringify({ completed: ["1001", "1002"] }));
+
+    const checkpoint = await loadCheckpoint(path);
+
+    expect(Object.keys(checkpoint.videos)).toEqual(["1001", "1002"]);
+    expect(checkpoint.videos["1001"]).toMatchObject({
+      state: "uploaded",
+      attempts: 1,
+    });
+    expect(uploadedIds(checkpoint)).toEqual(new Set(["1001", "1002"]));
+  });
+
+  test("resumes an interrupted run", async () => {
+    const checkpoint: UploadCheckpoint = { videos: {} };
+    updateRecord(checkpoint, "1001", "uploaded", { attempts: 1, bytes: 10 });
+    updateRecord(checkpoint, "1002", "uploading", {
+      attempts: 1,
+      multipart: { uploadId: "upload-1", partSize: 8, totalBytes: 20 },
+    });
+    updateRecord(checkpoint, "1003", "failed", {
+      attempts: 2,
+      lastError: "CDN error 403",
+      errorCategory: "cdn-expired",
+    });
+    await saveCheckpoint(checkpoint, path);
+
+    const loaded = await loadCheckpoint(path);
+
+    expect(loaded).toEqual(checkpoint);
+    expect(isUploaded(loaded.videos["1001"])).toBe(true);
+    expect(isUploaded(loaded.videos["1002"])).toBe(false);
+    expect(loaded.videos["1002"]?.multipart?.uploadId).toBe("upload-1");
+    expect(uploadedIds(loaded)).toEqual(new Set(["1001"]));
+  });
+});
+
+describe("updateRecord", () => {
+  test("keeps the fields of the previous record", () => {
+    const checkpoint: UploadCheckpoint = { videos: {} };
+    updateRecord(checkpoint, "1001", "uploading", {
+      attempts: 1,
+      strategy: "digital-master",
+    });
+
+    const record = updateRecord(checkpoint, "1001", "uploaded", {
+      multipart: undefined,
+      bytes: 42,
+    });
+
+    expect(record).toMatchObject({
+      state: "uploaded",
+      attempts: 1,
+      strategy: "digital-master",
+      bytes: 42,
+    });
+    expect(checkpoint.videos["1001"]).toBe(record);
+  });
+});
+
+describe("saveCheckpoint", () => {
+  test("concurrent saves end with the last state and no temp file", async () => {
+    const checkpoint: UploadCheckpoint = { videos: {} };
+    const saves = Array.from({ length: 10 }, (_, i) => {
+      updateRecord(checkpoint, `${1000 + i}`, "uploaded");
+      return saveCheckpoint(structuredClone(checkpoint), path);
+    });
+    await Promise.all(saves);
+
+    const loaded = await loadCheckpoint(path);
+
+    expect(Object.keys(loaded.videos)).toHaveLength(10);
+    expect(await readdir(dir)).toEqual(["upload_checkpoint.json"]);
+  });
+});
@@ -0,0 +1,222 @@
+// End-to-end run of upload-to-s3.ts against the mock servers
+//
+// The script keeps its data files next to itself, so it runs from a copy of
+// src/ in a temp directory, with its own secret.json and AWS profile files.
+
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { cp, mkdtemp, rm, symlink } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { resolve } from "node:path";
+import { PART_SIZE } from "../src/sync-brightcove-videos-to-s3/multipart-upload.ts";
+import type { UploadCheckpoint } from "../src/sync-brightcove-videos-to-s3/upload-checkpoint.ts";
+import {
+  startMockBrightcove,
+  type MockBrightcoveServer,
+} from "./mocks/brightcove-server.ts";
+import { startMockS3, type MockS3Server } from "./mocks/s3-server.ts";
+
+const REPO_ROOT = resolve(import.meta.dir, "..");
+const PREFIX = "brightcove-cleanup/";
+
+const file = (size: number, seed: number) =>
+  new Uint8Array(size).map((_, i) => (i * seed) % 251);
+
+// Uploaded after an expired CDN URL and a revoked token
+const EXPIRED = file(1024 * 1024, 7);
+// Uploaded after a Brightcove 503 and a dropped download; a QuickTime master
+const DROPPED = file(512 * 1024, 13);
+// Its first part was uploaded by an interrupted run
+const RESUMED = file(PART_SIZE + 4096, 17);
+// Brightcove only has the placeholder left
+const PLACEHOLDER = file(4096, 19);
+
+let dir: string;
+let brightcove: MockBrightcoveServer;
+let s3: MockS3Server;
+let run: { exitCode: number; stdout: string; stderr: string };
+let checkpoint: UploadCheckpoint;
+
+beforeAll(async () => {
+  brightcove = await startMockBrightcove();
+  s3 = startMockS3();
+
+  brightcove.addVideo("2001", { master: EXPIRED });
+  brightcove.addVideo("2002");
+  brightcove.addVideo("2003", { master: RESUMED });
+  brightcove.addVideo("2004", { master: DROPPED, masterExtension: "mov" });
+  brightcove.addVideo("2005", {
+    master: PLACEHOLDER,
+    video: { tags: ["placeholder-replaced"] },
+  });
+  brightcove.failNext("/cdn/2001.mp4", 403);
+  brightcove.failNext("/videos/2001/sources", 401);
+  brightcove.failNext("/videos/2004/sources", 503);
+  brightcove.failNext("/cdn/2004.mov", "drop");
+
+  s3.uploads.set("upload-interrupted", {
+    key: `${PREFIX}2003.mp4`,
+    parts: new Map([[1, RESUMED.slice(0, PART_SIZE)]]),
+  });
+
+  dir = await mkdtemp(`${tmpdir()}/upload-to-s3-test-`);
+  const scriptDir = `${dir}/src/sync-brightcove-videos-to-s3`;
+  await cp(`${REPO_ROOT}/src`, `${dir}/src`, { recursive: true });
+  await rm(`${scriptDir}/upload_checkpoint.json`, { force: true });
+  await symlink(`${REPO_ROOT}/node_modules`, `${dir}/node_modules`);
+
+  await Bun.write(`${dir}/secret.json`, brightcove.secret());
+  await Bun.write(
+    `${dir}/aws-credentials`,
+    "[test]\naws_access_key_id = test\naws_secret_access_key = test\n",
+  );
+  await Bun.write(`${dir}/aws-config`, "[profile test]\nregion = eu-central-1\n");
+  await Bun.write(
+    `${scriptDir}/video_sources.json`,
+    JSON.stringify(
+      ["2001", "2002", "2003", "2004", "2005"].map((videoId) => ({
+        videoId,
+        url: null,
+        resolution: "unknown",
+      })),
+    ),
+  );
+  await Bun.write(
+    `${scriptDir}/upload_checkpoint.json`,
+    JSON.stringify({
+      videos: {
+        "2003": {
+          state: "uploading",
+          attempts: 1,
+          strategy: "digital-master",
+          multipart: {
+            uploadId: "upload-interrupted",
+            partSize: PART_SIZE,
+            totalBytes: RESUMED.byteLength,
+          },
+          updatedAt: new Date().toISOString(),
+        },
+      },
+    }),
+  );
+
+  const proc = Bun.spawn(
+    [
+      process.execPath,
+      "run",
+      `${scriptDir}/upload-to-s3.ts`,
+      "--secret",
+      `${dir}/secret.json`,
+      "--profile",
+      "test",
+      "--bucket",
+      s3.bucket,
+      "--prefix",
+      PREFIX,
+      "--concurrency",
+      "2",
+    ],
+    {
+      cwd: dir,
+      env: {
+        PATH: process.env.PATH,
+        HOME: dir,
+        ...brightcove.env(),
+        AWS_ENDPOINT_URL_S3: s3.url,
+        AWS_SHARED_CREDENTIALS_FILE: `${dir}/aws-credentials`,
+        AWS_CONFIG_FILE: `${dir}/aws-config`,
+      },
+      stdout: "pipe",
+      stderr: "pipe",
+    },
+  );
+  const [stdout, stderr, exitCode] = await Promise.all([
+    new Response(proc.stdout).text(),
+    new Response(proc.stderr).text(),
+    proc.exited,
+  ]);
+  run = { exitCode, stdout, stderr };
+  checkpoint = await Bun.file(`${scriptDir}/upload_checkpoint.json`).json();
+}, 60_000);
+
+afterAll(async () => {
+  s3.stop();
+  await brightcove.stop();
+  await rm(dir, { recursive: true, force: true });
+});
+
+const sha256 = (data: Uint8Array) =>
+  new Bun.CryptoHasher("sha256").update(data).digest("hex");
+
+describe("upload-to-s3.ts", () => {
+  test("finishes the run", () => {
+    expect(run.stderr).not.toContain("CRASHED");
+    expect(run.exitCode).toBe(0);
+    expect(run.stdout).toContain("This session: 3 success, 2 errors");
+  });
+
+  test("retries an expired CDN URL with a fresh one", () => {
+    expect(s3.objects.get(`${PREFIX}2001.mp4`)?.body).toEqual(EXPIRED);
+    expect(run.stdout).toContain("2001: CDN URL expired (401/403), retrying");
+    expect(checkpoint.videos["2001"]).toMatchObject({
+      state: "uploaded",
+      strategy: "digital-master",
+      bytes: EXPIRED.byteLength,
+      sha256: sha256(EXPIRED),
+    });
+  });
+
+  test("refreshes a revoked Brightcove token", () => {
+    expect(brightcove.tokensIssued).toBe(2);
+  });
+
+  test("retries Brightcove 5xx and dropped downloads", () => {
+    expect(s3.objects.get(`${PREFIX}2004.mp4`)?.body).toEqual(DROPPED);
+    expect(run.stdout).toContain("2004: Network error");
+    expect(checkpoint.videos["2004"]?.state).toBe("uploaded");
+  });
+
+  test("keeps the container and content type of the digital master", () => {
+    expect(s3.objects.get(`${PREFIX}2001.mp4`)?.contentType).toBe("video/mp4");
+    expect(checkpoint.videos["2001"]?.container).toBe("mp4");
+    expect(s3.objects.get(`${PREFIX}2004.mp4`)?.contentType).toBe(
+      "video/quicktime",
+    );
+    expect(checkpoint.videos["2004"]?.container).toBe("mov");
+  });
+
+  test("resumes the upload of an interrupted run", () => {
+    expect(run.stdout).toContain("2003: resuming upload at 8 MB");
+    expect(s3.objects.get(`${PREFIX}2003.mp4`)?.body).toEqual(RESUMED);
+    expect(checkpoint.videos["2003"]).toMatchObject({
+      state: "uploaded",
+      attempts: 2,
+      sha256: sha256(RESUMED),
+    });
+    expect(checkpoint.videos["2003"]?.multipart).toBeUndefined();
+    expect(s3.uploads.size).toBe(0);
+  });
+
+  test("records videos without MP4, master or HLS", () => {
+    expect(checkpoint.videos["2002"]).toMatchObject({
+      state: "no-source",
+      errorCategory: "no-source",
+    });
+    expect(s3.objects.has(`${PREFIX}2002.mp4`)).toBe(false);
+  });
+
+  test("never uploads the placeholder of a replaced video", () => {
+    expect(checkpoint.videos["2005"]).toMatchObject({
+      state: "no-source",
+      errorCategory: "no-source",
+    });
+    expect(s3.objects.has(`${PREFIX}2005.mp4`)).toBe(false);
+    expect(brightcove.requests).not.toContain("GET /cdn/2005.mp4");
+  });
+
+  test("archives the checksum and metadata", () => {
+    const object = s3.objects.get(`${PREFIX}2001.mp4`);
+    expect(object?.tags).toEqual({ sha256: sha256(EXPIRED) });
+    const metadata = s3.objects.get(`${PREFIX}2001.json`);
+    expect(JSON.parse(new TextDecoder().decode(metadata?.body)).id).toBe("2001");
+  });
+});
@@ -0,0 +1,43 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { inspectVideo } from "../src/replace-brightcove-videos-with-placeholder/video-inspection.ts";
+import {
+  createBrightcoveClient,
+  type BrightcoveClient,
+} from "../src/shared/brightcove-client.ts";
+import {
+  startMockBrightcove,
+  type MockBrightcoveServer,
+} from "./mocks/brightcove-server.ts";
+
+let mock: MockBrightcoveServer;
+let client: BrightcoveClient;
+
+beforeAll(async () => {
+  mock = await startMockBrightcove();
+  client = createBrightcoveClient(mock.clientOptions());
+  mock.addVideo("dynamic", { dynamicRenditions: [] });
+  mock.addVideo("legacy");
+});
+
+afterAll(() => mock.stop());
+
+describe("inspectVideo", () => {
+  test("has no dynamic renditions for videos without Dynamic Delivery", async () => {
+    expect((await inspectVideo(client, "legacy")).dynamicRenditions).toBeNull();
+    expect((await inspectVideo(client, "dynamic")).dynamicRenditions).toEqual([]);
+  });
+
+  test("throws server errors of the dynamic renditions endpoint", async () => {
+    mock.failNext("/videos/dynamic/assets/dynamic_renditions", 503);
+
+    await expect(inspectVideo(client, "dynamic")).rejects.toThrow(
+      "Brightcove API error 503",
+    );
+  });
+
+  test("retries a rate limited dynamic renditions request", async () => {
+    mock.failNext("/videos/dynamic/assets/dynamic_renditions", 429);
+
+    expect((await inspectVideo(client, "dynamic")).dynamicRenditions).toEqual([]);
+  });
+});